@@ -0,0 +1,220 @@
+#!/usr/bin/env node
+// Parse saved Finn pages offline with the same extraction the actor runs:
+//   npm run parse -- <file or directory>... [--out results.ndjson] [--format json|ndjson] [--type ad|search] [--url <url>]
+// or compare them with their expected output, to catch extraction regressions:
+//   npm run parse -- <file or directory>... --check | --update-snapshots
+/* eslint-disable no-console */
+import { readdir, readFile, stat, writeFile } from 'node:fs/promises';
+import { basename, extname, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { load } from 'cheerio';
+import { canonicalAdUrl, classifyFinnUrl } from './urls.js';
+import { JobData, SearchPage, parseJobAd, parseSearchPage } from './parser.js';
+
+type PageType = 'ad' | 'search';
+type OutputFormat = 'json' | 'ndjson';
+
+// One parsed file of the output
+type ParsedFile =
+    | { file: string; url: string; type: 'ad'; job: JobData }
+    | { file: string; url: string; type: 'search'; page: SearchPage }
+    | { file: string; error: string };
+
+type FailedFile = Extract<ParsedFile, { error: string }>;
+
+// The expected output of a saved page, stored next to it. parsedAt is the day deadlines are counted from,
+// so a snapshot stays valid as time passes.
+interface Snapshot {
+    url: string;
+    type: PageType;
+    parsedAt: string;
+    result: JobData | SearchPage;
+}
+
+interface ParseFileOptions {
+    url?: string;
+    type?: PageType;
+    now?: Date;
+}
+
+const HTML_EXTENSIONS = new Set(['.html', '.htm']);
+
+const USAGE = 'Usage: npm run parse -- <file or directory>... [--out <file>] [--format json|ndjson] [--type ad|search] [--url <url>]'
+    + ' [--check | --update-snapshots]';
+
+// Every HTML file among the paths, searching directories recursively
+const collectHtmlFiles = async (paths: string[]): Promise<string[]> => {
+    const files: string[] = [];
+    for (const path of paths) {
+        if ((await stat(path)).isDirectory()) {
+            const entries = await readdir(path);
+            files.push(...await collectHtmlFiles(entries.sort().map((entry) => join(path, entry))));
+        } else if (HTML_EXTENSIONS.has(extname(path).toLowerCase())) {
+            files.push(path);
+        }
+    }
+    return files;
+};
+
+// The URL a saved page was loaded from: its canonical link, or an ad URL built from a finnkode in the file name
+const guessPageUrl = (html: string, file: string): string | undefined => {
+    const $ = load(html);
+    const linked = $('link[rel="canonical"]').attr('href') || $('meta[property="og:url"]').attr('content');
+    if (linked && classifyFinnUrl(linked)) return linked;
+
+    const finnkode = basename(file).match(/\d{6,}/)?.[0];
+    return finnkode ? canonicalAdUrl(finnkode) : undefined;
+};
+
+const parseFile = async (file: string, options: ParseFileOptions): Promise<ParsedFile> => {
+    try {
+        const html = await readFile(file, 'utf8');
+        const url = options.url ?? guessPageUrl(html, file);
+        if (!url) return { file, error: 'No URL found in the page or its file name, pass one with --url' };
+
+        const kind = classifyFinnUrl(url)?.kind;
+        const type = options.type ?? (kind === 'search' ? 'search' : 'ad');
+        if (type === 'search') return { file, url, type, page: parseSearchPage(html, url, { now: options.now }) };
+        return { file, url, type, job: parseJobAd(html, url, { now: options.now }) };
+    } catch (error) {
+        return { file, error: (error as Error).message };
+    }
+};
+
+const formatResults = (results: ParsedFile[], format: OutputFormat): string => {
+    if (format === 'ndjson') return results.map((result) => `${JSON.stringify(result)}\n`).join('');
+    return `${JSON.stringify(results, null, 2)}\n`;
+};
+
+// page.html is expected to parse into page.expected.json
+const snapshotPath = (file: string): string => `${file.slice(0, -extname(file).length)}.expected.json`;
+
+const readSnapshot = async (file: string): Promise<Snapshot | undefined> => {
+    try {
+        return JSON.parse(await readFile(snapshotPath(file), 'utf8')) as Snapshot;
+    } catch {
+        return undefined;
+    }
+};
+
+// The top-level fields whose values differ, each with both values
+const diffFields = (expected: object, actual: object): string[] => {
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    return [...keys].flatMap((key) => {
+        const expectedValue = JSON.stringify((expected as Record<string, unknown>)[key]);
+        const actualValue = JSON.stringify((actual as Record<string, unknown>)[key]);
+        return expectedValue === actualValue ? [] : [`${key}: expected ${expectedValue ?? 'nothing'}, got ${actualValue ?? 'nothing'}`];
+    });
+};
+
+// Parse each page as its snapshot says and compare the output. Returns the number of pages that don't match.
+const checkSnapshots = async (files: string[]): Promise<number> => {
+    let failures = 0;
+    for (const file of files) {
+        const snapshot = await readSnapshot(file);
+        if (!snapshot) {
+            console.error(`MISSING ${file}: no ${basename(snapshotPath(file))}, create it with --update-snapshots`);
+            failures++;
+            continue;
+        }
+
+        const parsed = await parseFile(file, { url: snapshot.url, type: snapshot.type, now: new Date(snapshot.parsedAt) });
+        const differences = 'error' in parsed
+            ? [parsed.error]
+            : diffFields(snapshot.result, parsed.type === 'ad' ? parsed.job : parsed.page);
+        if (differences.length === 0) {
+            console.error(`ok ${file}`);
+        } else {
+            console.error(`FAIL ${file}\n${differences.map((difference) => `    ${difference}`).join('\n')}`);
+            failures++;
+        }
+    }
+    console.error(`${files.length - failures} of ${files.length} pages match their snapshots`);
+    return failures;
+};
+
+// Write the current output of each page as its snapshot, keeping the URL and page type of an existing one
+const updateSnapshots = async (files: string[], options: ParseFileOptions): Promise<FailedFile[]> => {
+    const failed: FailedFile[] = [];
+    const now = new Date();
+    for (const file of files) {
+        const existing = await readSnapshot(file);
+        const parsed = await parseFile(file, { url: options.url ?? existing?.url, type: options.type ?? existing?.type, now });
+        if ('error' in parsed) {
+            failed.push(parsed);
+            continue;
+        }
+
+        const snapshot: Snapshot = {
+            url: parsed.url,
+            type: parsed.type,
+            parsedAt: now.toISOString(),
+            result: parsed.type === 'ad' ? parsed.job : parsed.page,
+        };
+        await writeFile(snapshotPath(file), `${JSON.stringify(snapshot, null, 2)}\n`);
+        console.error(`Updated ${snapshotPath(file)}`);
+    }
+    return failed;
+};
+
+const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+        out: { type: 'string', short: 'o' },
+        format: { type: 'string', short: 'f' },
+        type: { type: 'string', short: 't' },
+        url: { type: 'string', short: 'u' },
+        check: { type: 'boolean' },
+        'update-snapshots': { type: 'boolean' },
+    },
+});
+
+if (positionals.length === 0) {
+    console.error(USAGE);
+    process.exit(2);
+}
+if (values.type !== undefined && values.type !== 'ad' && values.type !== 'search') {
+    console.error(`Unknown page type "${values.type}". ${USAGE}`);
+    process.exit(2);
+}
+if (values.format !== undefined && values.format !== 'json' && values.format !== 'ndjson') {
+    console.error(`Unknown format "${values.format}". ${USAGE}`);
+    process.exit(2);
+}
+
+const files = await collectHtmlFiles(positionals);
+if (values.url && files.length > 1) {
+    console.error('--url can only be given for a single file');
+    process.exit(2);
+}
+const options: ParseFileOptions = { url: values.url, type: values.type as PageType | undefined };
+
+if (values.check) {
+    process.exitCode = (await checkSnapshots(files)) > 0 ? 1 : 0;
+} else {
+    let failed: FailedFile[];
+    if (values['update-snapshots']) {
+        failed = await updateSnapshots(files, options);
+    } else {
+        const results: ParsedFile[] = [];
+        for (const file of files) {
+            results.push(await parseFile(file, options));
+        }
+
+        // NDJSON for .ndjson and .jsonl files, JSON otherwise
+        const format = (values.format as OutputFormat | undefined) ?? (values.out && /\.(ndjson|jsonl)$/i.test(values.out) ? 'ndjson' : 'json');
+        const output = formatResults(results, format);
+        if (values.out) {
+            await writeFile(values.out, output);
+        } else {
+            process.stdout.write(output);
+        }
+        failed = results.filter((result): result is FailedFile => 'error' in result);
+    }
+
+    for (const result of failed) {
+        console.error(`${result.file}: ${result.error}`);
+    }
+    console.error(`Parsed ${files.length - failed.length} of ${files.length} files`);
+    process.exitCode = failed.length > 0 ? 1 : 0;
+}
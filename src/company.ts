@@ -0,0 +1,149 @@
+import { CheerioRoot } from 'crawlee';
+import { classifyFinnUrl } from './urls.js';
+import { LabelDictionary, findByLabel } from './labels.js';
+
+// An employer, shared by all of its ads and stored once in the company dataset
+export interface Company {
+    companyId: string; // The organisation number when known, otherwise Finn's profile id or the name
+    name: string;
+    orgNumber?: string;
+    profileUrl?: string; // The employer's Finn company profile
+    website?: string;
+    industry?: string;
+    employeeCount?: string; // Bucket such as "50-99" or "1000+"
+    address?: string;
+    about?: string; // The "Om arbeidsgiveren" text
+    logoUrl?: string;
+    previousIds?: string[]; // Ids the employer's ads were linked to before its org number was known
+}
+
+// Company details found on an ad or a company profile page
+export type CompanyDetails = Partial<Omit<Company, 'companyId' | 'previousIds'>>;
+
+const EMPLOYEE_BUCKETS: [number, string][] = [
+    [10, '1-9'],
+    [50, '10-49'],
+    [100, '50-99'],
+    [250, '100-249'],
+    [500, '250-499'],
+    [1000, '500-999'],
+];
+
+// "Org.nr.: 923 609 016", "Organisasjonsnummer 923609016"
+const ORG_NUMBER_PATTERN = /(?:org\.?\s*n(?:r|ummer)|organisasjonsnummer)\.?:?\s*(\d{3}\s?\d{3}\s?\d{3})(?!\d)/i;
+
+// Organisation numbers end in a modulus 11 check digit
+export const isValidOrgNumber = (orgNumber: string): boolean => {
+    if (!/^\d{9}$/.test(orgNumber)) return false;
+
+    const weights = [3, 2, 7, 6, 5, 4, 3, 2];
+    const sum = weights.reduce((total, weight, index) => total + weight * Number(orgNumber[index]), 0);
+    const check = 11 - (sum % 11);
+    return (check === 11 ? 0 : check) === Number(orgNumber[8]);
+};
+
+export const findOrgNumber = (text: string): string | undefined => {
+    const orgNumber = text.match(ORG_NUMBER_PATTERN)?.[1].replace(/\s/g, '');
+    return orgNumber && isValidOrgNumber(orgNumber) ? orgNumber : undefined;
+};
+
+// Turn "50-99 ansatte", "Over 1000" or "120" into one of a fixed set of buckets
+export const toEmployeeBucket = (raw: string | undefined): string | undefined => {
+    const numbers = raw?.replace(/(\d)[\s.](?=\d{3}\b)/g, '$1').match(/\d+/g)?.map(Number);
+    if (!numbers?.length) return undefined;
+
+    const count = Math.max(...numbers);
+    return EMPLOYEE_BUCKETS.find(([limit]) => count < limit)?.[1] ?? '1000+';
+};
+
+// "Kari Nordmann AS" -> "kari-nordmann-as", used as id for employers without org number or profile
+const slugify = (name: string): string => {
+    return name
+        .toLowerCase()
+        .replace(/æ/g, 'ae')
+        .replace(/ø/g, 'o')
+        .replace(/å/g, 'a')
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-|-$/g, '');
+};
+
+// The key company records are stored under. Ads showing the same org number, profile or name share it.
+export const companyIdFor = (details: CompanyDetails): string | undefined => {
+    if (details.orgNumber) return details.orgNumber;
+
+    const profileId = details.profileUrl ? classifyFinnUrl(details.profileUrl)?.profileId : undefined;
+    if (profileId) return `finn-${profileId}`;
+
+    const slug = details.name ? slugify(details.name) : '';
+    return slug ? `name-${slug}` : undefined;
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// The value next to a label in a definition list or a "Label: value" list item
+const labelledValue = ($: CheerioRoot, labels: string[]): string | undefined => {
+    for (const label of labels) {
+        const definition = $(`dt:contains("${label}")`).first().next('dd').text()
+            .trim();
+        if (definition) return definition;
+
+        const item = $(`li:contains("${label}")`).first().text()
+            .replace(new RegExp(`^\\s*${escapeRegExp(label)}:?`, 'i'), '')
+            .trim();
+        if (item) return item;
+    }
+    return undefined;
+};
+
+// Read whatever company details a page shows. Works on both ads and company profile pages.
+export const extractCompanyDetails = ($: CheerioRoot, labels: LabelDictionary): CompanyDetails => {
+    const profileHref = $('a[href*="/job/company/"], a[href*="/job/employer/company/"]').first().attr('href');
+    const profileUrl = profileHref ? classifyFinnUrl(profileHref) : undefined;
+
+    const website = $(`${labels.website.map((label) => `a:contains("${label}")`).join(', ')}, a[rel~="external"]`)
+        .filter((_, link) => /^https?:/.test($(link).attr('href') ?? '') && !/finn\.no/.test($(link).attr('href') ?? ''))
+        .first()
+        .attr('href');
+
+    // The paragraphs under the "Om arbeidsgiveren" heading, up to the next heading
+    const about = findByLabel($, 'h2', labels.aboutEmployer)
+        .first()
+        .nextUntil('h1, h2')
+        .toArray()
+        .map((element) => $(element).text().replace(/\s+/g, ' ').trim())
+        .filter(Boolean)
+        .join('\n\n');
+
+    return {
+        orgNumber: findOrgNumber($('body').text()),
+        profileUrl: profileUrl?.kind === 'company' ? profileUrl.url : undefined,
+        website,
+        industry: labelledValue($, labels.industry),
+        employeeCount: toEmployeeBucket(labelledValue($, labels.employeeCount)),
+        address: labelledValue($, labels.address) || findByLabel($, 'section', labels.companyLocation).find('p').first().text()
+            .trim() || undefined,
+        about: about || undefined,
+    };
+};
+
+// Fill in the fields a company record is still missing; values already known win
+export const mergeCompany = (company: Company, details: CompanyDetails): Company => {
+    for (const [key, value] of Object.entries(details) as [keyof CompanyDetails, string | undefined][]) {
+        if (value && !company[key]) company[key] = value;
+    }
+    return company;
+};
+
+// Move a company to the key of its org number once its profile shows one. Its ads are already stored
+// with the old id, which is kept in previousIds. A company already stored under the org number takes in the details.
+export const rekeyCompany = (companies: Map<string, Company>, company: Company): Company => {
+    const { companyId, previousIds, ...details } = company;
+    if (!details.orgNumber || details.orgNumber === companyId) return company;
+
+    const existing = companies.get(details.orgNumber);
+    const rekeyed = existing ? mergeCompany(existing, details) : { ...details, companyId: details.orgNumber };
+    rekeyed.previousIds = [...new Set([...(existing?.previousIds ?? []), ...(previousIds ?? []), companyId])];
+    companies.delete(companyId);
+    companies.set(rekeyed.companyId, rekeyed);
+    return rekeyed;
+};
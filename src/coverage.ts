@@ -0,0 +1,120 @@
+import { Actor } from 'apify';
+import { FieldBranches, JobData } from './parser.js';
+
+// Key under which the coverage report of the run is stored in the default KeyValueStore
+const COVERAGE_REPORT_KEY = 'COVERAGE_REPORT';
+
+// The extracted fields whose coverage is tracked. Fields set by the run rather than read from the page are left out.
+export const COVERAGE_FIELDS: (keyof JobData)[] = [
+    'title',
+    'company',
+    'companyId',
+    'companyLogoUrl',
+    'description',
+    'descriptionSections',
+    'skills',
+    'contactPersons',
+    'email',
+    'applicationUrl',
+    'location',
+    'locations',
+    'employmentType',
+    'salary',
+    'publicationDate',
+    'expirationDateRaw',
+    'expirationDate',
+    'lastModified',
+    'section',
+    'language',
+];
+
+// Minimum coverage in percent, per field, used when the input sets none
+export const DEFAULT_COVERAGE_THRESHOLDS: Record<string, number> = { title: 95, company: 90 };
+
+// Counts kept while the run scrapes ads, saved with the run state so a migrated run keeps counting
+export interface CoverageStats {
+    records: number;
+    filled: Record<string, number>;
+    sources: Record<string, Record<string, number>>; // Per field, how many values each source or fallback branch produced
+}
+
+export interface FieldCoverage {
+    filled: number;
+    percent: number;
+    sources: Record<string, number>;
+}
+
+export interface CoverageViolation {
+    field: string;
+    percent: number;
+    threshold: number;
+}
+
+export interface CoverageReport {
+    generatedAt: string;
+    records: number;
+    fields: Record<string, FieldCoverage>;
+    thresholds: Record<string, number>;
+    violations: CoverageViolation[];
+}
+
+// Errors for thresholds that name no tracked field or aren't a percentage, one message per threshold
+export const validateCoverageThresholds = (thresholds: Record<string, number>): string[] => Object.entries(thresholds)
+    .flatMap(([field, threshold]) => {
+        if (!COVERAGE_FIELDS.includes(field as keyof JobData)) {
+            return [`coverageThresholds.${field} is not a tracked field (one of ${COVERAGE_FIELDS.join(', ')})`];
+        }
+        if (typeof threshold !== 'number' || threshold < 0 || threshold > 100) {
+            return [`coverageThresholds.${field} must be a percentage between 0 and 100`];
+        }
+        return [];
+    });
+
+export const createCoverageStats = (): CoverageStats => ({ records: 0, filled: {}, sources: {} });
+
+const isFilled = (value: unknown): boolean => {
+    if (value === undefined || value === null || value === '') return false;
+    return !Array.isArray(value) || value.length > 0;
+};
+
+// Where a filled field came from: its structured data source, or the selector fallback that found it.
+// Parsed fields such as expirationDate share the branch of their raw text.
+const sourceOf = (job: JobData, branches: FieldBranches, field: keyof JobData): string => {
+    const source = job.fieldSources?.[field] ?? 'selector';
+    if (source !== 'selector') return source;
+    const branch = branches[field] ?? branches[`${field}Raw` as keyof JobData];
+    return branch ? `selector:${branch}` : source;
+};
+
+// Count the filled fields of an extracted ad
+export const recordCoverage = (stats: CoverageStats, job: JobData, branches: FieldBranches): void => {
+    stats.records++;
+    for (const field of COVERAGE_FIELDS) {
+        if (!isFilled(job[field])) continue;
+        stats.filled[field] = (stats.filled[field] ?? 0) + 1;
+        const source = sourceOf(job, branches, field);
+        stats.sources[field] = { ...stats.sources[field], [source]: (stats.sources[field]?.[source] ?? 0) + 1 };
+    }
+};
+
+const toPercent = (count: number, total: number): number => (total > 0 ? Math.round((count / total) * 1000) / 10 : 0);
+
+// The coverage of every tracked field, and the fields that fell below their threshold.
+// A run that extracted no ads has nothing to measure, so it reports no violations.
+export const buildCoverageReport = (stats: CoverageStats, thresholds: Record<string, number>, now = new Date()): CoverageReport => {
+    const fields = Object.fromEntries(COVERAGE_FIELDS.map((field) => [field, {
+        filled: stats.filled[field] ?? 0,
+        percent: toPercent(stats.filled[field] ?? 0, stats.records),
+        sources: stats.sources[field] ?? {},
+    }])) as Record<string, FieldCoverage>;
+
+    const violations = stats.records === 0 ? [] : Object.entries(thresholds)
+        .map(([field, threshold]) => ({ field, percent: fields[field]?.percent ?? 0, threshold }))
+        .filter(({ percent, threshold }) => percent < threshold);
+
+    return { generatedAt: now.toISOString(), records: stats.records, fields, thresholds, violations };
+};
+
+export const saveCoverageReport = async (report: CoverageReport): Promise<void> => {
+    await Actor.setValue(COVERAGE_REPORT_KEY, report);
+};
@@ -0,0 +1,4 @@
+import { readFileSync } from 'node:fs';
+
+// Read a JSON file bundled in data/, so no network lookup is needed. The path works from both src/ and dist/.
+export const loadBundledJson = <T>(name: string): T => JSON.parse(readFileSync(new URL(`../data/${name}`, import.meta.url), 'utf8')) as T;
@@ -0,0 +1,144 @@
+// What kind of application deadline an ad has
+export type DeadlineType = 'date' | 'asap' | 'rolling' | 'unknown';
+
+// Finn shows all dates in Norwegian time
+const TIME_ZONE = 'Europe/Oslo';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Month names and abbreviations in bokmål, nynorsk and English, in calendar order
+const MONTH_NAMES = [
+    ['jan', 'januar', 'january'],
+    ['feb', 'februar', 'february'],
+    ['mar', 'mars', 'march'],
+    ['apr', 'april'],
+    ['mai', 'may'],
+    ['jun', 'juni', 'june'],
+    ['jul', 'juli', 'july'],
+    ['aug', 'august'],
+    ['sep', 'sept', 'september'],
+    ['okt', 'oct', 'oktober', 'october'],
+    ['nov', 'november'],
+    ['des', 'dec', 'desember', 'december'],
+];
+
+const MONTHS = new Map(MONTH_NAMES.flatMap((names, index) => names.map((name) => [name, index + 1] as const)));
+
+const ASAP_PATTERN = /snarest|asap|as soon as possible|straks|omgående/i;
+const ROLLING_PATTERN = /løpende|fortløpende|rolling|ongoing/i;
+
+// 2026-11-15, optionally followed by a time and offset
+const ISO_PATTERN = /\b(\d{4})-(\d{2})-(\d{2})(T[\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?/;
+// 15.11.2026, 15/11/26, 15.11.2026 kl. 12:34
+const NUMERIC_PATTERN = /\b(\d{1,2})[./](\d{1,2})[./](\d{2}|\d{4})\b(?:[^\d]{0,6}(\d{1,2})[:.](\d{2}))?/;
+// 15. november 2026, 15 nov. 2026, 19. okt. 2026, 12:34
+const WRITTEN_PATTERN = /\b(\d{1,2})\.?\s+([a-zæøå]+)\.?,?\s+(\d{4})\b(?:[^\d]{0,6}(\d{1,2})[:.](\d{2}))?/i;
+
+// "for 3 timer siden", "2 dager siden", "5 minutes ago", as shown on search result cards
+const RELATIVE_PATTERN = /(\d+)\s*(min|minutt|minutter|minutes?|t|timer?|hours?|dager?|dagar|days?|uker?|veker?|weeks?)\.?\s+(?:siden|sidan|ago)\b/i;
+const YESTERDAY_PATTERN = /\bi går|\byesterday\b/i;
+const TODAY_PATTERN = /\b(?:i dag|nettopp|today|just now)\b/i;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// Minutes Oslo is ahead of UTC at the given moment (60 in winter, 120 in summer)
+const osloOffsetMinutes = (date: Date): number => {
+    const parts = Object.fromEntries(new Intl.DateTimeFormat('en-US', {
+        timeZone: TIME_ZONE,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+    }).formatToParts(date).map((part) => [part.type, part.value]));
+
+    const asUtc = Date.UTC(Number(parts.year), Number(parts.month) - 1, Number(parts.day), Number(parts.hour), Number(parts.minute));
+    return Math.round((asUtc - date.getTime()) / 60000);
+};
+
+// The calendar date in Oslo for a moment, as YYYY-MM-DD
+export const osloDate = (date: Date): string => {
+    return new Intl.DateTimeFormat('en-CA', { timeZone: TIME_ZONE, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+};
+
+const isValidDate = (year: number, month: number, day: number): boolean => {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+// Build an ISO value from Norwegian local date parts: a plain date, or a UTC timestamp when the time is known
+const toIso = (year: number, month: number, day: number, hour?: string, minute?: string): string | undefined => {
+    if (!isValidDate(year, month, day)) return undefined;
+
+    if (hour === undefined || minute === undefined) {
+        return `${year}-${pad(month)}-${pad(day)}`;
+    }
+
+    const localAsUtc = Date.UTC(year, month - 1, day, Number(hour), Number(minute));
+    return new Date(localAsUtc - osloOffsetMinutes(new Date(localAsUtc)) * 60000).toISOString();
+};
+
+// Parse a date in any of the formats Finn uses into ISO 8601.
+// Date-only values become YYYY-MM-DD, values with a time become a full UTC timestamp.
+export const parseNorwegianDate = (raw: string | undefined): string | undefined => {
+    if (!raw) return undefined;
+    const text = raw.replace(/\s+/g, ' ').trim();
+
+    const isoMatch = text.match(ISO_PATTERN);
+    if (isoMatch) {
+        if (!isoMatch[4]) return toIso(Number(isoMatch[1]), Number(isoMatch[2]), Number(isoMatch[3]));
+        const timestamp = Date.parse(isoMatch[0]);
+        return Number.isNaN(timestamp) ? undefined : new Date(timestamp).toISOString();
+    }
+
+    const numericMatch = text.match(NUMERIC_PATTERN);
+    if (numericMatch) {
+        const year = numericMatch[3].length === 2 ? 2000 + Number(numericMatch[3]) : Number(numericMatch[3]);
+        return toIso(year, Number(numericMatch[2]), Number(numericMatch[1]), numericMatch[4], numericMatch[5]);
+    }
+
+    const writtenMatch = text.match(WRITTEN_PATTERN);
+    const month = writtenMatch ? MONTHS.get(writtenMatch[2].toLowerCase()) : undefined;
+    if (writtenMatch && month) {
+        return toIso(Number(writtenMatch[3]), month, Number(writtenMatch[1]), writtenMatch[4], writtenMatch[5]);
+    }
+
+    return undefined;
+};
+
+// Unit of a relative time in milliseconds, from its first letter: minutes, hours (timer), days (dager) and weeks (uker)
+const RELATIVE_UNITS: Record<string, number> = { m: 60000, t: 60 * 60000, h: 60 * 60000, d: DAY_MS, u: 7 * DAY_MS, v: 7 * DAY_MS, w: 7 * DAY_MS };
+
+// Parse a relative time such as "for 3 timer siden" or "i går" into the UTC timestamp it points at
+export const parseRelativeTime = (raw: string | undefined, now: Date): string | undefined => {
+    if (!raw) return undefined;
+
+    const match = raw.match(RELATIVE_PATTERN);
+    if (match) return new Date(now.getTime() - Number(match[1]) * RELATIVE_UNITS[match[2][0].toLowerCase()]).toISOString();
+    if (YESTERDAY_PATTERN.test(raw)) return new Date(now.getTime() - DAY_MS).toISOString();
+    if (TODAY_PATTERN.test(raw)) return now.toISOString();
+    return undefined;
+};
+
+// Tell a dated deadline from "Snarest", "Løpende" and the like
+export const classifyDeadline = (raw: string | undefined, parsed: string | undefined): DeadlineType => {
+    if (parsed) return 'date';
+    if (raw && ASAP_PATTERN.test(raw)) return 'asap';
+    if (raw && ROLLING_PATTERN.test(raw)) return 'rolling';
+    return 'unknown';
+};
+
+// Whole days from the run date to the deadline date, both taken in Norwegian time. Negative once the deadline has passed.
+export const daysUntil = (isoDate: string, now: Date): number => {
+    const deadlineDate = isoDate.length === 10 ? isoDate : osloDate(new Date(isoDate));
+    return Math.round((Date.parse(deadlineDate) - Date.parse(osloDate(now))) / DAY_MS);
+};
+
+// ISO 8601 week of a date in Norwegian time, e.g. "2024-W23". Weeks start on Monday and belong to the year of their Thursday.
+export const isoWeek = (isoDate: string): string => {
+    const date = new Date(isoDate.length === 10 ? isoDate : osloDate(new Date(isoDate)));
+    const thursday = new Date(date.getTime() + (3 - ((date.getUTCDay() + 6) % 7)) * DAY_MS);
+    const week = Math.floor((thursday.getTime() - Date.UTC(thursday.getUTCFullYear(), 0, 1)) / DAY_MS / 7) + 1;
+    return `${thursday.getUTCFullYear()}-W${pad(week)}`;
+};
@@ -0,0 +1,105 @@
+import { createHash } from 'node:crypto';
+import { Actor } from 'apify';
+import { daysUntil } from './dates.js';
+
+// How an ad differs from what the previous runs have seen. Expired ads were listed but taken down before their page was visited.
+export type ChangeType = 'new' | 'updated' | 'removed' | 'expired';
+
+// One entry of the persistent index, keyed by finnkode
+export interface AdIndexEntry {
+    url: string;
+    hash: string;
+    firstSeen: string;
+    lastSeen: string;
+}
+
+export type AdIndex = Record<string, AdIndexEntry>;
+
+// Record pushed for ads that were in the index but no longer show up in the search results
+export interface RemovedAdRecord {
+    url: string;
+    finnkode: string;
+    changeType: 'removed';
+    firstSeen: string;
+    lastSeen: string;
+    daysOnMarket: number; // From the first to the last run that scraped the ad
+}
+
+// Key under which the index is stored in the named KeyValueStore
+const AD_INDEX_KEY = 'AD_INDEX';
+
+// Serialize a value with sorted object keys so equal records always produce the same string
+export const stableStringify = (value: unknown): string => {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(',')}]`;
+    }
+
+    if (value && typeof value === 'object') {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .filter(([, entryValue]) => entryValue !== undefined)
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([key, entryValue]) => `${JSON.stringify(key)}:${stableStringify(entryValue)}`);
+        return `{${entries.join(',')}}`;
+    }
+
+    return JSON.stringify(value);
+};
+
+// Fields describing how, where and when an ad was scraped rather than its content
+const METADATA_FIELDS = ['changeType', 'fieldSources', 'searches', 'daysUntilDeadline', 'duplicateGroupId', 'duplicateOf', 'renderer'];
+
+// Content hash of a job record, used to tell whether an ad changed between runs
+export const hashJobData = (jobData: object): string => {
+    const content = Object.fromEntries(Object.entries(jobData).filter(([key]) => !METADATA_FIELDS.includes(key)));
+    return createHash('sha1').update(stableStringify(content)).digest('hex');
+};
+
+// Load the index of previously seen ads from the named KeyValueStore
+export const loadAdIndex = async (storeName: string): Promise<AdIndex> => {
+    const store = await Actor.openKeyValueStore(storeName);
+    return (await store.getValue<AdIndex>(AD_INDEX_KEY)) || {};
+};
+
+// Persist the index so the next run can compare against it
+export const saveAdIndex = async (storeName: string, index: AdIndex): Promise<void> => {
+    const store = await Actor.openKeyValueStore(storeName);
+    await store.setValue(AD_INDEX_KEY, index);
+};
+
+// Compare a freshly scraped ad against the index without changing it.
+// Returns undefined when the ad is already known and its content is unchanged.
+export const classifyAd = (index: AdIndex, finnkode: string, hash: string): ChangeType | undefined => {
+    const existing = index[finnkode];
+    if (!existing) return 'new';
+    return existing.hash === hash ? undefined : 'updated';
+};
+
+// Record a scraped ad in the index. New and changed ads are only recorded once they are stored,
+// so a retry after a failed store still sees them as new or changed.
+export const recordAd = (index: AdIndex, finnkode: string, url: string, hash: string): void => {
+    const now = new Date().toISOString();
+    const existing = index[finnkode];
+    index[finnkode] = { url, hash, firstSeen: existing?.firstSeen ?? now, lastSeen: now };
+};
+
+// Remove every indexed ad that wasn't listed in this run's search results
+// and return them as "removed" records
+export const collectRemovedAds = (index: AdIndex, listedFinnkodes: Set<string>): RemovedAdRecord[] => {
+    const removed: RemovedAdRecord[] = [];
+
+    for (const [finnkode, entry] of Object.entries(index)) {
+        if (listedFinnkodes.has(finnkode)) continue;
+
+        removed.push({
+            url: entry.url,
+            finnkode,
+            changeType: 'removed',
+            firstSeen: entry.firstSeen,
+            lastSeen: entry.lastSeen,
+            daysOnMarket: daysUntil(entry.lastSeen, new Date(entry.firstSeen)),
+        });
+        delete index[finnkode];
+    }
+
+    return removed;
+};
@@ -0,0 +1,217 @@
+import { CheerioRoot } from 'crawlee';
+import { AnyNode, CheerioNodes, Element, isTag, textData } from './dom.js';
+
+// What a named part of the description is about
+export type DescriptionSectionKind = 'intro' | 'duties' | 'qualifications' | 'personal-qualities' | 'offer' | 'about-company' | 'application' | 'other';
+
+export interface DescriptionSection {
+    heading?: string;
+    kind: DescriptionSectionKind;
+    content: string; // Markdown
+}
+
+export interface DescriptionData {
+    markdown: string;
+    text: string;
+    sections: DescriptionSection[];
+}
+
+// A piece of inline content rendered both ways
+interface Inline {
+    markdown: string;
+    text: string;
+}
+
+type Block =
+    | { type: 'heading'; level: number; text: string }
+    | { type: 'paragraph'; content: Inline }
+    | { type: 'list'; ordered: boolean; items: Inline[] };
+
+// Heading keywords for each section kind, checked in order, in bokmål, nynorsk and English
+const SECTION_KINDS: [DescriptionSectionKind, RegExp][] = [
+    ['duties', new RegExp([
+        'arbeidsoppgaver', 'arbeidsoppgåver', 'oppgaver', 'oppgåver', 'dette vil du jobbe med', 'dette kommer du til', 'ansvarsområde',
+        'responsibilit', 'what you.ll do', 'your role', 'tasks', 'duties',
+    ].join('|'), 'i')],
+    ['personal-qualities', /personlige egenskaper|personlege eigenskapar|personal (qualities|skills)|who you are/i],
+    ['qualifications', new RegExp([
+        'kvalifikasjoner', 'kvalifikasjonar', 'vi søker', 'hvem er du', 'kven er du', 'du må ha', 'du har', 'krav', 'ønskelig',
+        'requirements', 'qualifications', 'about you', 'we.re looking for', 'skills',
+    ].join('|'), 'i')],
+    ['offer', /vi tilbyr|vi tilbyd|hva vi tilbyr|betingelser|goder|fordeler|we offer|benefits|what we offer|perks/i],
+    ['about-company', /om oss|om arbeidsgiveren|om arbeidsgivaren|om selskapet|om firmaet|hvem er vi|about us|about the company|who we are/i],
+    ['application', /søknad|søk stillingen|kontakt|how to apply|application|contact/i],
+];
+
+const BLOCK_CONTAINERS = new Set(['div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'blockquote', 'table', 'tbody', 'thead', 'tr', 'td', 'th']);
+
+const normalizeWhitespace = (value: string): string => value.replace(/[ \t\r\n\f]+/g, ' ');
+
+const joinInline = (parts: Inline[]): Inline => ({
+    markdown: parts.map((part) => part.markdown).join(''),
+    text: parts.map((part) => part.text).join(''),
+});
+
+const trimInline = (inline: Inline): Inline => ({
+    markdown: inline.markdown.replace(/ *\n */g, '\n').trim(),
+    text: inline.text.replace(/ *\n */g, '\n').trim(),
+});
+
+// Wrap inline content in Markdown emphasis, keeping surrounding spaces outside the markers
+const emphasize = (inline: Inline, marker: string): Inline => {
+    const match = inline.markdown.match(/^(\s*)([\s\S]*?)(\s*)$/);
+    if (!match || !match[2]) return inline;
+    return { markdown: `${match[1]}${marker}${match[2]}${marker}${match[3]}`, text: inline.text };
+};
+
+const renderInline = ($: CheerioRoot, node: AnyNode): Inline => {
+    const data = textData(node);
+    if (data !== undefined) {
+        const text = normalizeWhitespace(data);
+        return { markdown: text, text };
+    }
+
+    if (!isTag(node)) return { markdown: '', text: '' };
+
+    const inner = (): Inline => joinInline($(node).contents().toArray().map((child) => renderInline($, child)));
+
+    switch (node.name) {
+        case 'br':
+            return { markdown: '\n', text: '\n' };
+        case 'strong':
+        case 'b':
+            return emphasize(inner(), '**');
+        case 'em':
+        case 'i':
+            return emphasize(inner(), '_');
+        case 'a': {
+            const content = inner();
+            const { href } = node.attribs;
+            if (!href || href.startsWith('#') || href === content.text.trim()) return content;
+            return { markdown: `[${content.markdown.trim()}](${href})`, text: content.text };
+        }
+        case 'li': {
+            const content = inner();
+            return { markdown: ` ${content.markdown} `, text: ` ${content.text} ` };
+        }
+        case 'script':
+        case 'style':
+            return { markdown: '', text: '' };
+        default:
+            return inner();
+    }
+};
+
+// A paragraph made of nothing but bold text is used as a heading in many Finn ads
+const boldOnlyHeading = ($: CheerioRoot, node: Element): string | undefined => {
+    const children = $(node).contents().toArray()
+        .filter((child) => textData(child)?.trim() !== '');
+    if (children.length !== 1 || !isTag(children[0]) || !['strong', 'b'].includes(children[0].name)) return undefined;
+
+    const text = normalizeWhitespace($(children[0]).text()).trim();
+    return text && text.length <= 80 ? text.replace(/:$/, '') : undefined;
+};
+
+// Split the description markup into headings, paragraphs and lists
+const collectBlocks = ($: CheerioRoot, node: AnyNode, blocks: Block[], pending: Inline[]): void => {
+    const flush = () => {
+        const content = trimInline(joinInline(pending.splice(0)));
+        if (content.text) blocks.push({ type: 'paragraph', content });
+    };
+
+    for (const child of $(node).contents().toArray()) {
+        if (!isTag(child)) {
+            pending.push(renderInline($, child));
+            continue;
+        }
+
+        const headingLevel = child.name.match(/^h([1-6])$/)?.[1];
+        if (headingLevel) {
+            flush();
+            const text = normalizeWhitespace($(child).text()).trim();
+            if (text) blocks.push({ type: 'heading', level: Number(headingLevel), text });
+        } else if (child.name === 'p') {
+            flush();
+            const heading = boldOnlyHeading($, child);
+            if (heading) {
+                blocks.push({ type: 'heading', level: 3, text: heading });
+            } else {
+                pending.push(renderInline($, child));
+                flush();
+            }
+        } else if (child.name === 'ul' || child.name === 'ol') {
+            flush();
+            const items = $(child).children('li').toArray()
+                .map((item) => trimInline(joinInline($(item).contents().toArray().map((content) => renderInline($, content)))))
+                .filter((item) => item.text);
+            if (items.length > 0) blocks.push({ type: 'list', ordered: child.name === 'ol', items });
+        } else if (BLOCK_CONTAINERS.has(child.name)) {
+            flush();
+            collectBlocks($, child, blocks, pending);
+            flush();
+        } else {
+            pending.push(renderInline($, child));
+        }
+    }
+};
+
+const blockToMarkdown = (block: Block): string => {
+    if (block.type === 'heading') return `${'#'.repeat(block.level)} ${block.text}`;
+    if (block.type === 'paragraph') return block.content.markdown;
+    return block.items.map((item, index) => `${block.ordered ? `${index + 1}.` : '-'} ${item.markdown.replace(/\n/g, '\n  ')}`).join('\n');
+};
+
+const blockToText = (block: Block): string => {
+    if (block.type === 'heading') return block.text;
+    if (block.type === 'paragraph') return block.content.text;
+    return block.items.map((item, index) => `${block.ordered ? `${index + 1}.` : '•'} ${item.text}`).join('\n');
+};
+
+export const classifySection = (heading: string | undefined): DescriptionSectionKind => {
+    if (!heading) return 'intro';
+    return SECTION_KINDS.find(([, pattern]) => pattern.test(heading))?.[0] ?? 'other';
+};
+
+// Cut text to the configured length; 0 or less means no limit
+export const truncate = (value: string, maxLength: number): string => {
+    if (maxLength <= 0 || value.length <= maxLength) return value;
+    return `${value.substring(0, maxLength)}... (truncated)`;
+};
+
+// Convert the description markup into Markdown and plain text, split into named sections
+export const convertDescription = ($: CheerioRoot, container: CheerioNodes): DescriptionData => {
+    const blocks: Block[] = [];
+    container.toArray().forEach((node) => {
+        const pending: Inline[] = [];
+        collectBlocks($, node, blocks, pending);
+        const rest = trimInline(joinInline(pending));
+        if (rest.text) blocks.push({ type: 'paragraph', content: rest });
+    });
+
+    const sections: DescriptionSection[] = [];
+    let current: { heading?: string; blocks: Block[] } = { blocks: [] };
+    const closeSection = () => {
+        if (current.blocks.length === 0) return;
+        sections.push({
+            heading: current.heading,
+            kind: classifySection(current.heading),
+            content: current.blocks.map(blockToMarkdown).join('\n\n'),
+        });
+    };
+
+    for (const block of blocks) {
+        if (block.type === 'heading') {
+            closeSection();
+            current = { heading: block.text, blocks: [] };
+        } else {
+            current.blocks.push(block);
+        }
+    }
+    closeSection();
+
+    return {
+        markdown: blocks.map(blockToMarkdown).join('\n\n'),
+        text: blocks.map(blockToText).join('\n\n'),
+        sections,
+    };
+};
@@ -0,0 +1,11 @@
+import { CheerioRoot } from 'crawlee';
+
+// DOM node types of the Cheerio instance crawlee hands to the handlers
+export type CheerioNodes = ReturnType<ReturnType<CheerioRoot['root']>['contents']>;
+export type AnyNode = CheerioNodes[number];
+export type Element = Extract<AnyNode, { attribs: Record<string, string> }>;
+
+export const isTag = (node: AnyNode): node is Element => 'name' in node && 'attribs' in node;
+
+// Text content of a text node; comments and other nodes have none
+export const textData = (node: AnyNode): string | undefined => (node.nodeType === 3 && 'data' in node ? node.data : undefined);
@@ -0,0 +1,199 @@
+import { createHash } from 'node:crypto';
+import { Actor } from 'apify';
+
+// What the history remembers about an ad, keyed by finnkode
+export interface DuplicateHistoryEntry {
+    url: string;
+    title: string;
+    company: string;
+    emails: string[];
+    signature: number[]; // MinHash signature of the description
+    duplicateGroupId: string;
+    duplicateOf?: string;
+    firstSeen: string;
+    lastSeen: string;
+}
+
+export type DuplicateHistory = Record<string, DuplicateHistoryEntry>;
+
+// The fields of a job record the ads are compared on
+export interface ComparableAd {
+    url: string;
+    title: string;
+    company: string;
+    descriptionText?: string;
+    emails?: { address: string }[];
+}
+
+// The history together with the buckets used to find candidate duplicates without comparing every pair
+export interface DuplicateIndex {
+    history: DuplicateHistory;
+    buckets: Map<string, Set<string>>;
+}
+
+export interface DuplicateMatch {
+    duplicateGroupId: string;
+    duplicateOf?: string; // finnkode of the first ad of the group; unset for the first ad itself
+}
+
+// Key under which the history is stored in the named KeyValueStore
+const DUPLICATE_HISTORY_KEY = 'DUPLICATE_HISTORY';
+
+// Ads not seen for this long are dropped from the history, so it doesn't grow forever
+const MAX_HISTORY_AGE_DAYS = 180;
+
+// 64 hashes split into 16 bands of 4: ads sharing any band become candidates, which finds most pairs
+// whose descriptions are more than about half the same
+const SIGNATURE_LENGTH = 64;
+const BAND_SIZE = 4;
+
+// Words per shingle
+const SHINGLE_SIZE = 3;
+
+// How much each comparison counts towards the similarity. Emails only count when both ads have some.
+const WEIGHTS = { description: 0.6, title: 0.2, company: 0.1, emails: 0.1 };
+
+// Signatures are taken modulo this prime, 2^31 - 1
+const MINHASH_PRIME = 2147483647;
+
+// A hash of the text below MINHASH_PRIME, from the first four bytes of its SHA-1 digest
+const hashString = (text: string): number => createHash('sha1').update(text).digest().readUInt32BE(0) % MINHASH_PRIME;
+
+// One MinHash function per signature position, as a random linear map (a * x + b) mod p.
+// The multipliers stay below 2^21 so the products stay below 2^53 and are exact. The seeds are fixed,
+// so signatures stored by earlier runs stay comparable.
+const PERMUTATIONS = Array.from({ length: SIGNATURE_LENGTH }, (_, index) => ({
+    multiplier: 1 + (hashString(`minhash-a-${index}`) % 0x1fffff),
+    offset: hashString(`minhash-b-${index}`),
+}));
+
+const normalizeWords = (text: string): string[] => text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+
+const normalizeCompany = (company: string): string => normalizeWords(company)
+    .filter((word, index, words) => index < words.length - 1 || !['as', 'asa', 'sa', 'da', 'ans'].includes(word))
+    .join(' ');
+
+const shingles = (text: string): Set<string> => {
+    const words = normalizeWords(text);
+    if (words.length < SHINGLE_SIZE) return new Set(words.length > 0 ? [words.join(' ')] : []);
+    return new Set(words.slice(0, words.length - SHINGLE_SIZE + 1).map((_, index) => words.slice(index, index + SHINGLE_SIZE).join(' ')));
+};
+
+// MinHash signature of a text; empty for texts without words
+export const minHashSignature = (text: string): number[] => {
+    const hashes = [...shingles(text)].map(hashString);
+    if (hashes.length === 0) return [];
+    return PERMUTATIONS.map(({ multiplier, offset }) => hashes
+        .reduce((min, hash) => Math.min(min, (multiplier * hash + offset) % MINHASH_PRIME), Infinity));
+};
+
+// Share of equal positions, which estimates the Jaccard similarity of the shingle sets
+const signatureSimilarity = (a: number[], b: number[]): number => {
+    if (a.length === 0 || a.length !== b.length) return 0;
+    return a.filter((value, index) => value === b[index]).length / a.length;
+};
+
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+    if (a.size === 0 && b.size === 0) return 1;
+    const shared = [...a].filter((item) => b.has(item)).length;
+    return shared / (a.size + b.size - shared);
+};
+
+const bandKeys = (signature: number[]): string[] => {
+    const keys: string[] = [];
+    for (let start = 0; start + BAND_SIZE <= signature.length; start += BAND_SIZE) {
+        keys.push(`${start}:${signature.slice(start, start + BAND_SIZE).join(',')}`);
+    }
+    return keys;
+};
+
+const addToBuckets = (index: DuplicateIndex, finnkode: string, signature: number[]): void => {
+    for (const key of bandKeys(signature)) {
+        const bucket = index.buckets.get(key) ?? new Set<string>();
+        bucket.add(finnkode);
+        index.buckets.set(key, bucket);
+    }
+};
+
+// Weighted similarity of two ads between 0 and 1
+export const adSimilarity = (
+    a: Pick<DuplicateHistoryEntry, 'title' | 'company' | 'emails' | 'signature'>,
+    b: Pick<DuplicateHistoryEntry, 'title' | 'company' | 'emails' | 'signature'>,
+): number => {
+    const parts = [
+        { weight: WEIGHTS.description, score: signatureSimilarity(a.signature, b.signature) },
+        { weight: WEIGHTS.title, score: jaccard(new Set(normalizeWords(a.title)), new Set(normalizeWords(b.title))) },
+        { weight: WEIGHTS.company, score: normalizeCompany(a.company) === normalizeCompany(b.company) ? 1 : 0 },
+    ];
+    if (a.emails.length > 0 && b.emails.length > 0) {
+        parts.push({ weight: WEIGHTS.emails, score: a.emails.some((email) => b.emails.includes(email)) ? 1 : 0 });
+    }
+    return parts.reduce((sum, part) => sum + part.weight * part.score, 0) / parts.reduce((sum, part) => sum + part.weight, 0);
+};
+
+export const buildDuplicateIndex = (history: DuplicateHistory): DuplicateIndex => {
+    const index: DuplicateIndex = { history, buckets: new Map() };
+    for (const [finnkode, entry] of Object.entries(history)) addToBuckets(index, finnkode, entry.signature);
+    return index;
+};
+
+// Compare an ad against the earlier ads of this run and the history, and record it there.
+// An ad that was seen before under the same finnkode keeps the group it got then.
+export const findDuplicate = (index: DuplicateIndex, finnkode: string, ad: ComparableAd, threshold: number): DuplicateMatch => {
+    const now = new Date().toISOString();
+    const entry: DuplicateHistoryEntry = {
+        url: ad.url,
+        title: ad.title,
+        company: ad.company,
+        emails: [...new Set((ad.emails ?? []).map((email) => email.address.toLowerCase()))],
+        signature: minHashSignature(ad.descriptionText ?? ''),
+        duplicateGroupId: finnkode,
+        firstSeen: now,
+        lastSeen: now,
+    };
+
+    const existing = index.history[finnkode];
+    if (existing) {
+        index.history[finnkode] = { ...entry, duplicateGroupId: existing.duplicateGroupId, duplicateOf: existing.duplicateOf, firstSeen: existing.firstSeen };
+        addToBuckets(index, finnkode, entry.signature);
+        return { duplicateGroupId: existing.duplicateGroupId, duplicateOf: existing.duplicateOf };
+    }
+
+    const candidates = new Set(bandKeys(entry.signature).flatMap((key) => [...(index.buckets.get(key) ?? [])]));
+    let best: { finnkode: string; similarity: number } | undefined;
+    for (const candidate of candidates) {
+        const similarity = adSimilarity(entry, index.history[candidate]);
+        if (similarity >= threshold && (!best || similarity > best.similarity)) best = { finnkode: candidate, similarity };
+    }
+
+    if (best) {
+        const original = index.history[best.finnkode];
+        entry.duplicateGroupId = original.duplicateGroupId;
+        entry.duplicateOf = original.duplicateOf ?? best.finnkode;
+    }
+
+    index.history[finnkode] = entry;
+    addToBuckets(index, finnkode, entry.signature);
+    return { duplicateGroupId: entry.duplicateGroupId, duplicateOf: entry.duplicateOf };
+};
+
+// Load the history of compared ads from the named KeyValueStore
+export const loadDuplicateHistory = async (storeName: string): Promise<DuplicateHistory> => {
+    const store = await Actor.openKeyValueStore(storeName);
+    return (await store.getValue<DuplicateHistory>(DUPLICATE_HISTORY_KEY)) || {};
+};
+
+// Persist the history, dropping ads that haven't been seen for a long time
+export const saveDuplicateHistory = async (storeName: string, history: DuplicateHistory): Promise<void> => {
+    const cutoff = new Date(Date.now() - MAX_HISTORY_AGE_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const kept = Object.fromEntries(Object.entries(history).filter(([, entry]) => entry.lastSeen >= cutoff));
+    const store = await Actor.openKeyValueStore(storeName);
+    await store.setValue(DUPLICATE_HISTORY_KEY, kept);
+};
@@ -0,0 +1,174 @@
+import { loadBundledJson } from './data.js';
+import { CheerioNodes } from './dom.js';
+
+// Who an email address reaches: a named contact person, or a shared company or recruitment mailbox
+export type MailboxType = 'contact' | 'company' | 'recruitment';
+
+export interface EmailData {
+    address: string;
+    type: MailboxType;
+    contactName?: string; // Only set for contact addresses
+}
+
+// The parts of a contact person the resolver looks at
+interface ContactLike {
+    name: string;
+    email?: string;
+}
+
+// Every top-level domain in the IANA root zone, from the MIT-licensed tlds package
+const TLDS = new Set(loadBundledJson<string[]>('tlds.json'));
+
+// "ola [at] firma [dot] no", "ola(at)firma(punktum)no", "ola {krøllalfa} firma.no"
+const AT_PATTERN = /\s*[[({]\s*(at|et|alfa|krøllalfa)\s*[\])}]\s*/gi;
+const DOT_PATTERN = /\s*[[({]\s*(dot|punkt|punktum)\s*[\])}]\s*/gi;
+
+// A local part and a domain whose last label may still have text glued onto it
+const EMAIL_PATTERN = /[\w.+-]+@(?:[a-z0-9-]+\.)+[a-z0-9-]+/gi;
+
+// Words that often end up glued to an address when the page text is flattened
+const GLUED_WORDS = /^(telefon|tlf|mobil|mob|kontakt|contact|navn|name|e-?post|email|stilling|søk|adresse|www)/i;
+
+// Local parts of shared mailboxes
+const RECRUITMENT_MAILBOXES = /^(jobb|jobs?|careers?|karriere|rekruttering|recruit(ment|ing)?|hr|personal|soknad|søknad|apply|talent|stilling(er)?)([._-]|@)/i;
+const COMPANY_MAILBOXES = /^(post|postmottak|firmapost|info|kontakt|contact|hello|hei|office|kontor|admin|sales|salg|kundeservice|support|mail)([._-]|@)/i;
+
+// Cloudflare's email protection hides addresses as hex where the first byte is the XOR key for the rest
+export const decodeCloudflareEmail = (encoded: string): string | undefined => {
+    if (!/^([0-9a-f]{2}){2,}$/i.test(encoded)) return undefined;
+
+    const [key, ...bytes] = Buffer.from(encoded, 'hex');
+    // eslint-disable-next-line no-bitwise
+    return String.fromCharCode(...bytes.map((byte) => byte ^ key));
+};
+
+// Turn "[at]" and "(punktum)" style obfuscations back into "@" and "."
+export const deobfuscate = (text: string): string => text.replace(AT_PATTERN, '@').replace(DOT_PATTERN, '.');
+
+// Cut the last domain label back to a real top-level domain: "firma.noTelefon" -> "firma.no"
+const trimToTld = (candidate: string): string | undefined => {
+    const lastDot = candidate.lastIndexOf('.');
+    const label = candidate.slice(lastDot + 1);
+    if (TLDS.has(label.toLowerCase())) return candidate;
+
+    // "firma.no.Kontakt" - a sentence glued on after the final dot
+    const previous = candidate.slice(0, lastDot);
+    const previousLabel = previous.slice(previous.lastIndexOf('.') + 1);
+    const hasDomain = previous.includes('.', previous.indexOf('@'));
+    if (hasDomain && TLDS.has(previousLabel.toLowerCase()) && (/^[A-ZÆØÅ]/.test(label) || GLUED_WORDS.test(label))) {
+        return previous;
+    }
+
+    const prefixes = Array.from({ length: label.length - 2 }, (_, index) => label.slice(0, index + 2))
+        .filter((prefix) => TLDS.has(prefix.toLowerCase()))
+        .reverse();
+    const rest = (prefix: string) => label.slice(prefix.length);
+
+    // A capital letter or a known word right after the TLD shows where the glued text starts
+    const tld = prefixes.find((prefix) => /^[A-ZÆØÅ]/.test(rest(prefix)))
+        ?? prefixes.find((prefix) => GLUED_WORDS.test(rest(prefix)))
+        ?? prefixes[0];
+    return tld ? `${candidate.slice(0, lastDot + 1)}${tld}` : undefined;
+};
+
+// Validate one address and normalise it to lower case
+export const normalizeEmail = (raw: string): string | undefined => {
+    const candidate = deobfuscate(raw.trim()).replace(/^mailto:/i, '').split('?')[0];
+    const match = candidate.match(/^[\w.+-]+@(?:[a-z0-9-]+\.)+[a-z0-9-]+$/i);
+    if (!match) return undefined;
+
+    const email = trimToTld(match[0].replace(/^\.+/, ''));
+    return email?.toLowerCase();
+};
+
+// Find every valid address in a piece of text
+export const findEmails = (text: string): string[] => {
+    const emails = [...deobfuscate(text).matchAll(EMAIL_PATTERN)]
+        .map((match) => normalizeEmail(match[0]))
+        .filter((email): email is string => email !== undefined);
+    return [...new Set(emails)];
+};
+
+// Addresses in some part of the page: mailto links, Cloudflare-protected addresses and the text
+export const findEmailsIn = (nodes: CheerioNodes): string[] => {
+    const links = nodes.find('a[href^="mailto:"]').addBack('a[href^="mailto:"]').toArray()
+        .map((link) => ('attribs' in link ? link.attribs.href : ''))
+        .map((href) => {
+            try {
+                return decodeURIComponent(href);
+            } catch {
+                return href;
+            }
+        });
+
+    const protectedEmails = nodes.find('[data-cfemail], a[href*="/cdn-cgi/l/email-protection#"]').toArray()
+        .map((element) => ('attribs' in element ? element.attribs['data-cfemail'] ?? element.attribs.href?.split('#')[1] ?? '' : ''))
+        .map(decodeCloudflareEmail);
+
+    const emails = [...links, ...protectedEmails]
+        .map((email) => (email ? normalizeEmail(email) : undefined))
+        .filter((email): email is string => email !== undefined);
+
+    return [...new Set([...emails, ...findEmails(nodes.text())])];
+};
+
+// The email address of one contact: from the contact's own element first, then from the elements
+// following it in the same block, stopping where the next contact starts
+export const findContactEmail = (contact: CheerioNodes, isNextContact: (text: string) => boolean): string | undefined => {
+    const own = findEmailsIn(contact)[0];
+    if (own) return own;
+
+    const siblings = contact.nextAll();
+    for (let i = 0; i < siblings.length; i++) {
+        const sibling = siblings.eq(i);
+        if (isNextContact(sibling.text())) break;
+
+        const email = findEmailsIn(sibling)[0];
+        if (email) return email;
+    }
+
+    return undefined;
+};
+
+const nameParts = (name: string): string[] => {
+    return name
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/ø/g, 'o')
+        .replace(/æ/g, 'ae')
+        .split(/[\s.-]+/)
+        .filter((part) => part.length > 1);
+};
+
+// "ola.nordmann@", "onordmann@" and "ola@" all belong to Ola Nordmann
+const belongsTo = (address: string, contact: ContactLike): boolean => {
+    const local = address.split('@')[0].replace(/\d+$/, '');
+    const parts = nameParts(contact.name);
+    if (parts.length === 0) return false;
+
+    const localParts = local.split(/[._-]+/);
+    const first = parts[0];
+    const last = parts[parts.length - 1];
+    return localParts.every((part) => parts.includes(part) || part === first[0])
+        || local === `${first[0]}${last}`
+        || local === `${first}${last}`;
+};
+
+// Assign every address to the contact it belongs to, filling in contacts' missing emails along the way.
+// Addresses that belong to no contact are shared company or recruitment mailboxes.
+export const resolveEmails = (addresses: string[], contacts: ContactLike[]): EmailData[] => {
+    return [...new Set(addresses)].map((address) => {
+        const contact = contacts.find((person) => person.email === address)
+            ?? (RECRUITMENT_MAILBOXES.test(address) || COMPANY_MAILBOXES.test(address)
+                ? undefined
+                : contacts.find((person) => !person.email && belongsTo(address, person)));
+
+        if (contact) {
+            contact.email ??= address;
+            return { address, type: 'contact', contactName: contact.name };
+        }
+
+        return { address, type: RECRUITMENT_MAILBOXES.test(address) ? 'recruitment' : 'company' };
+    });
+};
@@ -0,0 +1,19 @@
+/* eslint-disable max-classes-per-file */
+import { NonRetryableError, SessionError } from 'crawlee';
+
+// A block or captcha page instead of the requested one. As a SessionError it makes the crawler retire
+// the proxy session and retry the request with another one.
+export class BlockedPageError extends SessionError {
+    constructor(reason: string, readonly statusCode?: number) {
+        super(`Blocked: ${reason}`);
+        this.name = 'BlockedPageError';
+    }
+}
+
+// The page was fetched but the handler couldn't make sense of it. Fetching the same page again won't help.
+export class ParseError extends NonRetryableError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ParseError';
+    }
+}
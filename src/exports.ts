@@ -0,0 +1,244 @@
+import { Actor } from 'apify';
+import { buildXlsx, CellValue } from './xlsx.js';
+import { escapeXml } from './xml.js';
+
+// File formats the export stage can write to the KeyValueStore
+export type ExportFormat = 'csv' | 'xlsx' | 'rss' | 'atom' | 'ics';
+
+// The fields of a job record that the feeds and the calendar read
+export interface ExportableJob {
+    url: string;
+    title: string;
+    company: string;
+    finnkode?: string;
+    descriptionText?: string;
+    location?: string;
+    publicationDate?: string;
+    lastModified?: string;
+    expirationDate?: string;
+}
+
+// Columns written to CSV and XLSX when the input doesn't choose any. Nested values use dot paths;
+// "contactPersons" expands into numbered columns for each contact.
+export const DEFAULT_EXPORT_COLUMNS = [
+    'finnkode',
+    'url',
+    'title',
+    'company',
+    'companyId',
+    'location',
+    'employmentType',
+    'salary.min',
+    'salary.max',
+    'salary.currency',
+    'salary.period',
+    'publicationDate',
+    'expirationDate',
+    'deadlineType',
+    'email',
+    'applicationUrl',
+    'skills',
+    'contactPersons',
+];
+
+// Fields of each contact person, written as contactPersons.1.name, contactPersons.1.role, ...
+const CONTACT_FIELDS = ['name', 'role', 'phoneNumber', 'email'];
+
+// Key and content type of each export in the KeyValueStore
+const EXPORT_FILES: Record<ExportFormat, { key: string; contentType: string }> = {
+    csv: { key: 'jobs.csv', contentType: 'text/csv; charset=utf-8' },
+    xlsx: { key: 'jobs.xlsx', contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+    rss: { key: 'jobs.rss', contentType: 'application/rss+xml; charset=utf-8' },
+    atom: { key: 'jobs.atom', contentType: 'application/atom+xml; charset=utf-8' },
+    ics: { key: 'deadlines.ics', contentType: 'text/calendar; charset=utf-8' },
+};
+
+const FEED_TITLE = 'Finn.no job ads';
+const FEED_LINK = 'https://www.finn.no/job/search';
+
+const getPath = (record: object, path: string): unknown => {
+    return path.split('.').reduce<unknown>((value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined), record);
+};
+
+// Lists become one cell: skills and emails by name or address, plain values as they are
+const toCell = (value: unknown): CellValue => {
+    if (value === undefined || value === null) return undefined;
+    if (typeof value === 'number') return value;
+    if (Array.isArray(value)) {
+        return value.map((item) => {
+            if (item && typeof item === 'object') {
+                const named = item as { name?: string; address?: string };
+                return named.name ?? named.address ?? JSON.stringify(item);
+            }
+            return String(item);
+        }).join('; ');
+    }
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+};
+
+// Flatten the records into a header and rows, giving each contact person its own numbered columns
+export const flattenJobs = (jobs: object[], columns: string[]): { header: string[]; rows: CellValue[][] } => {
+    const maxContacts = Math.max(0, ...jobs.map((job) => (getPath(job, 'contactPersons') as unknown[] | undefined)?.length ?? 0));
+    const header = columns.flatMap((column) => {
+        if (column !== 'contactPersons') return [column];
+        return Array.from({ length: maxContacts }, (_, index) => CONTACT_FIELDS.map((field) => `contactPersons.${index + 1}.${field}`)).flat();
+    });
+
+    const rows = jobs.map((job) => header.map((column) => {
+        const contactMatch = column.match(/^contactPersons\.(\d+)\.(\w+)$/);
+        if (contactMatch) return toCell(getPath(job, `contactPersons.${Number(contactMatch[1]) - 1}.${contactMatch[2]}`));
+        return toCell(getPath(job, column));
+    }));
+
+    return { header, rows };
+};
+
+// Spreadsheets run text starting with these as a formula, so an ad could smuggle one into the CSV
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvField = (value: CellValue): string => {
+    const raw = value === undefined ? '' : String(value);
+    const text = typeof value === 'string' && FORMULA_START.test(raw) ? `'${raw}` : raw;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// RFC 4180 CSV with a byte order mark, so Excel opens Norwegian characters correctly
+export const buildCsv = (header: string[], rows: CellValue[][]): string => {
+    return `\ufeff${[header, ...rows].map((row) => row.map(csvField).join(',')).join('\r\n')}\r\n`;
+};
+
+const excerpt = (job: ExportableJob): string => {
+    const text = job.descriptionText ?? '';
+    return text.length > 500 ? `${text.slice(0, 500)}...` : text;
+};
+
+const feedTitle = (job: ExportableJob): string => `${job.title} - ${job.company}`;
+
+// Ads without a parseable date get the time of the run
+const toDate = (value: string | undefined, fallback: Date): Date => {
+    const parsed = value ? new Date(value) : undefined;
+    return parsed && !Number.isNaN(parsed.getTime()) ? parsed : fallback;
+};
+
+export const buildRss = (jobs: ExportableJob[], now: Date): string => {
+    const items = jobs.map((job) => [
+        '<item>',
+        `<title>${escapeXml(feedTitle(job))}</title>`,
+        `<link>${escapeXml(job.url)}</link>`,
+        `<guid isPermaLink="true">${escapeXml(job.url)}</guid>`,
+        `<pubDate>${toDate(job.publicationDate, now).toUTCString()}</pubDate>`,
+        `<description>${escapeXml(excerpt(job))}</description>`,
+        '</item>',
+    ].join(''));
+
+    return '<?xml version="1.0" encoding="UTF-8"?>\n'
+        + '<rss version="2.0"><channel>'
+        + `<title>${FEED_TITLE}</title><link>${FEED_LINK}</link><description>Job ads scraped from Finn.no</description>`
+        + `<lastBuildDate>${now.toUTCString()}</lastBuildDate>`
+        + `${items.join('\n')}</channel></rss>\n`;
+};
+
+export const buildAtom = (jobs: ExportableJob[], now: Date): string => {
+    const entries = jobs.map((job) => [
+        '<entry>',
+        `<id>${escapeXml(job.url)}</id>`,
+        `<title>${escapeXml(feedTitle(job))}</title>`,
+        `<link href="${escapeXml(job.url)}"/>`,
+        `<updated>${toDate(job.lastModified ?? job.publicationDate, now).toISOString()}</updated>`,
+        job.publicationDate ? `<published>${toDate(job.publicationDate, now).toISOString()}</published>` : '',
+        `<author><name>${escapeXml(job.company || 'Finn.no')}</name></author>`,
+        `<summary>${escapeXml(excerpt(job))}</summary>`,
+        '</entry>',
+    ].join(''));
+
+    return '<?xml version="1.0" encoding="UTF-8"?>\n'
+        + '<feed xmlns="http://www.w3.org/2005/Atom">'
+        + `<id>${FEED_LINK}</id><title>${FEED_TITLE}</title><link href="${FEED_LINK}"/>`
+        + `<updated>${now.toISOString()}</updated>`
+        + `${entries.join('\n')}</feed>\n`;
+};
+
+const escapeIcsText = (value: string): string => value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// iCalendar lines may be at most 75 octets; longer ones continue on lines starting with a space
+const foldIcsLine = (line: string): string => {
+    const parts: string[] = [];
+    let current = '';
+    for (const char of line) {
+        if (Buffer.byteLength(current + char) > (parts.length === 0 ? 75 : 74)) {
+            parts.push(current);
+            current = '';
+        }
+        current += char;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+};
+
+const icsTimestamp = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Deadlines with only a date become all-day events; deadlines with a time become a point in time
+const icsDeadline = (expirationDate: string): string[] => {
+    if (expirationDate.length === 10) {
+        const start = expirationDate.replace(/-/g, '');
+        const next = new Date(`${expirationDate}T00:00:00Z`);
+        next.setUTCDate(next.getUTCDate() + 1);
+        return [`DTSTART;VALUE=DATE:${start}`, `DTEND;VALUE=DATE:${next.toISOString().slice(0, 10).replace(/-/g, '')}`];
+    }
+    const stamp = icsTimestamp(new Date(expirationDate));
+    return [`DTSTART:${stamp}`, `DTEND:${stamp}`];
+};
+
+// One event per ad with a parsed application deadline
+export const buildIcs = (jobs: ExportableJob[], now: Date): string => {
+    const events = jobs
+        .filter((job) => job.expirationDate)
+        .flatMap((job) => [
+            'BEGIN:VEVENT',
+            `UID:${job.finnkode ?? encodeURIComponent(job.url)}@finn-job-scraper`,
+            `DTSTAMP:${icsTimestamp(now)}`,
+            ...icsDeadline(job.expirationDate as string),
+            `SUMMARY:${escapeIcsText(`Frist: ${feedTitle(job)}`)}`,
+            `DESCRIPTION:${escapeIcsText(job.url)}`,
+            `URL:${job.url}`,
+            ...(job.location ? [`LOCATION:${escapeIcsText(job.location)}`] : []),
+            'END:VEVENT',
+        ]);
+
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Finn.no Job Scraper//Deadlines//EN',
+        'CALSCALE:GREGORIAN',
+        `X-WR-CALNAME:${FEED_TITLE}`,
+        ...events,
+        'END:VCALENDAR',
+    ];
+    return `${lines.map(foldIcsLine).join('\r\n')}\r\n`;
+};
+
+// Write the chosen formats to the default KeyValueStore. Returns the keys that were written.
+export const exportJobs = async (jobs: ExportableJob[], formats: ExportFormat[], columns: string[], now = new Date()): Promise<string[]> => {
+    const written: string[] = [];
+    for (const format of new Set(formats)) {
+        const file = EXPORT_FILES[format];
+        if (!file) continue;
+
+        let content: string | Buffer;
+        if (format === 'csv' || format === 'xlsx') {
+            const { header, rows } = flattenJobs(jobs, columns);
+            content = format === 'csv' ? buildCsv(header, rows) : buildXlsx('Jobs', header, rows);
+        } else if (format === 'rss') {
+            content = buildRss(jobs, now);
+        } else if (format === 'atom') {
+            content = buildAtom(jobs, now);
+        } else {
+            content = buildIcs(jobs, now);
+        }
+
+        await Actor.setValue(file.key, content, { contentType: file.contentType });
+        written.push(file.key);
+    }
+    return written;
+};
@@ -0,0 +1,82 @@
+import { Actor } from 'apify';
+import { CheerioRoot } from 'crawlee';
+import { BlockedPageError, ParseError } from './errors.js';
+
+// Why a request failed
+export type FailureClass = 'blocked' | 'expired' | 'parse' | 'timeout' | 'other';
+
+// One lost page in the failed-request dataset
+export interface FailureRecord {
+    url: string;
+    label?: string;
+    retryCount: number;
+    statusCode?: number;
+    errorClass: FailureClass;
+    errorMessage: string;
+    failedAt: string;
+}
+
+// Record pushed to the default dataset for ads that were listed but are gone when their page is visited
+export interface ExpiredAdRecord {
+    url: string;
+    finnkode: string;
+    changeType: 'expired';
+    statusCode?: number;
+    expiredAt: string;
+}
+
+// Selectors and titles of captcha and bot-protection pages. Regular pages can embed a captcha in a form,
+// so the selectors only count on pages with hardly any text.
+const BLOCK_SELECTORS = '#px-captcha, #challenge-form, .g-recaptcha, .h-captcha, iframe[src*="captcha"], [data-sitekey]';
+const BLOCK_PAGE_MAX_TEXT = 2000;
+const BLOCK_TITLE_PATTERN = /captcha|just a moment|attention required|access denied|are you a robot|er du en robot/i;
+
+// Ads that were taken down still answer with 200 and a notice - a soft 404
+const EXPIRED_PATTERN = new RegExp([
+    'annonsen er ikke lenger tilgjengelig',
+    'annonsen er ikkje lenger tilgjengeleg',
+    'annonsen er utløpt',
+    'annonsen finnes ikke',
+    'this ad is no longer available',
+    'the ad has expired',
+].join('|'), 'i');
+
+// Why the page is a block page, or undefined when it isn't one
+export const detectBlockPage = ($: CheerioRoot, statusCode?: number): string | undefined => {
+    if (statusCode === 403 || statusCode === 429) return `HTTP ${statusCode}`;
+    if ($(BLOCK_SELECTORS).length > 0 && $('body').text().trim().length < BLOCK_PAGE_MAX_TEXT) return 'captcha';
+
+    const title = $('title').text().trim();
+    if (BLOCK_TITLE_PATTERN.test(title)) return `page titled "${title}"`;
+    return undefined;
+};
+
+// Whether the ad is gone: a 404 or 410, or Finn's notice that the ad isn't available any more
+export const isExpiredAd = ($: CheerioRoot, statusCode?: number): boolean => {
+    if (statusCode === 404 || statusCode === 410) return true;
+    return EXPIRED_PATTERN.test($('h1, h2, main p').text());
+};
+
+// The HTTP status in crawlee's error messages, e.g. "Request blocked - received 403 status code."
+const statusCodeOf = (error: Error): number | undefined => {
+    if (error instanceof BlockedPageError) return error.statusCode;
+    const match = error.message.match(/\b([45]\d{2}) status code|^([45]\d{2}) - /);
+    return match ? Number(match[1] ?? match[2]) : undefined;
+};
+
+export const classifyFailure = (error: Error): { errorClass: FailureClass; statusCode?: number } => {
+    const statusCode = statusCodeOf(error);
+    if (error instanceof BlockedPageError || statusCode === 401 || statusCode === 403 || statusCode === 429 || /blocked|captcha/i.test(error.message)) {
+        return { errorClass: 'blocked', statusCode };
+    }
+    if (statusCode === 404 || statusCode === 410) return { errorClass: 'expired', statusCode };
+    if (error.name === 'TimeoutError' || /timed? ?out|ETIMEDOUT|ESOCKETTIMEDOUT/i.test(error.message)) return { errorClass: 'timeout', statusCode };
+    if (error instanceof ParseError) return { errorClass: 'parse', statusCode };
+    return { errorClass: 'other', statusCode };
+};
+
+// Write a lost page to the named failed-request dataset
+export const recordFailure = async (datasetName: string, failure: Omit<FailureRecord, 'failedAt'>): Promise<void> => {
+    const dataset = await Actor.openDataset(datasetName);
+    await dataset.pushData({ ...failure, failedAt: new Date().toISOString() });
+};
@@ -0,0 +1,153 @@
+import { createHash } from 'node:crypto';
+import { Actor } from 'apify';
+import { stableStringify } from './delta.js';
+import { daysUntil } from './dates.js';
+import { JobData } from './parser.js';
+import { JobSection } from './urls.js';
+
+// Whether an ad is on the market. Removed ads dropped out of the search results, expired ads were taken down.
+export type AdStatus = 'listed' | 'removed' | 'expired';
+
+// The fields whose changes are logged. The description is compared by hash, as its full text would bloat the history.
+const TRACKED_FIELDS = [
+    'title',
+    'company',
+    'location',
+    'employmentType',
+    'salary',
+    'publicationDate',
+    'expirationDateRaw',
+    'expirationDate',
+    'applicationUrl',
+    'contactPersons',
+    'email',
+] as const;
+
+export type TrackedFields = Partial<Pick<JobData, typeof TRACKED_FIELDS[number]>> & { descriptionHash?: string };
+
+// The tracked fields of an ad as seen in one run, stored whenever any of them changed
+export interface AdVersion {
+    observedAt: string;
+    fields: TrackedFields;
+}
+
+// One entry of the persistent history, keyed by finnkode
+export interface AdHistoryEntry {
+    url: string;
+    title: string;
+    company: string;
+    section?: JobSection;
+    firstSeen: string;
+    lastSeen: string; // Last run whose search results listed the ad
+    versions: AdVersion[];
+}
+
+export type AdHistory = Record<string, AdHistoryEntry>;
+
+// One record of the change log dataset. Status changes of ads that left the market also tell how long they were on it.
+export interface ChangeLogEntry {
+    finnkode: string;
+    field: string;
+    oldValue: unknown;
+    newValue: unknown;
+    observedAt: string;
+    title?: string;
+    company?: string;
+    section?: JobSection;
+    firstSeen?: string;
+    lastSeen?: string;
+    daysOnMarket?: number;
+}
+
+// Key under which the history is stored in the named KeyValueStore
+const AD_HISTORY_KEY = 'AD_HISTORY';
+
+const trackedFieldsOf = (job: JobData): TrackedFields => {
+    const fields: TrackedFields = Object.fromEntries(TRACKED_FIELDS.map((field) => [field, job[field]]));
+    if (job.description) fields.descriptionHash = createHash('sha1').update(job.description).digest('hex');
+    return fields;
+};
+
+// Record the ad as seen in this run, adding a version when a tracked field changed.
+// Returns a change log entry per changed field, or a status entry for an ad seen for the first time.
+export const recordAdVersion = (history: AdHistory, finnkode: string, job: JobData, observedAt: string): ChangeLogEntry[] => {
+    const fields = trackedFieldsOf(job);
+    const existing = history[finnkode];
+
+    if (!existing) {
+        history[finnkode] = {
+            url: job.url,
+            title: job.title,
+            company: job.company,
+            section: job.section,
+            firstSeen: observedAt,
+            lastSeen: observedAt,
+            versions: [{ observedAt, fields }],
+        };
+        return [{ finnkode, field: 'status', oldValue: null, newValue: 'listed', observedAt }];
+    }
+
+    Object.assign(existing, { url: job.url, title: job.title, company: job.company, section: job.section ?? existing.section, lastSeen: observedAt });
+
+    const previous = existing.versions[existing.versions.length - 1]?.fields ?? {};
+    const keys = new Set([...Object.keys(previous), ...Object.keys(fields)]) as Set<keyof TrackedFields>;
+    const changes = [...keys]
+        .filter((field) => stableStringify(previous[field] ?? null) !== stableStringify(fields[field] ?? null))
+        .map((field): ChangeLogEntry => ({ finnkode, field, oldValue: previous[field] ?? null, newValue: fields[field] ?? null, observedAt }));
+
+    if (changes.length > 0) existing.versions.push({ observedAt, fields });
+    return changes;
+};
+
+// Ads listed again count as seen, even when the run didn't visit them
+export const markListed = (history: AdHistory, listedFinnkodes: Set<string>, observedAt: string): void => {
+    for (const finnkode of listedFinnkodes) {
+        if (history[finnkode]) history[finnkode].lastSeen = observedAt;
+    }
+};
+
+// Take an ad off the market: drop it from the history and return its status change, with how long it was listed
+export const closeAd = (history: AdHistory, finnkode: string, status: Exclude<AdStatus, 'listed'>, observedAt: string): ChangeLogEntry | undefined => {
+    const entry = history[finnkode];
+    if (!entry) return undefined;
+    delete history[finnkode];
+
+    return {
+        finnkode,
+        field: 'status',
+        oldValue: 'listed',
+        newValue: status,
+        observedAt,
+        title: entry.title,
+        company: entry.company,
+        section: entry.section,
+        firstSeen: entry.firstSeen,
+        lastSeen: entry.lastSeen,
+        daysOnMarket: daysUntil(entry.lastSeen, new Date(entry.firstSeen)),
+    };
+};
+
+// Close every ad in the history that wasn't listed in this run's search results
+export const closeRemovedAds = (history: AdHistory, listedFinnkodes: Set<string>, observedAt: string): ChangeLogEntry[] => {
+    return Object.keys(history)
+        .filter((finnkode) => !listedFinnkodes.has(finnkode))
+        .flatMap((finnkode) => closeAd(history, finnkode, 'removed', observedAt) ?? []);
+};
+
+// Load the history of earlier runs from the named KeyValueStore
+export const loadAdHistory = async (storeName: string): Promise<AdHistory> => {
+    const store = await Actor.openKeyValueStore(storeName);
+    return (await store.getValue<AdHistory>(AD_HISTORY_KEY)) || {};
+};
+
+export const saveAdHistory = async (storeName: string, history: AdHistory): Promise<void> => {
+    const store = await Actor.openKeyValueStore(storeName);
+    await store.setValue(AD_HISTORY_KEY, history);
+};
+
+// Write change log entries to the named dataset
+export const recordChanges = async (datasetName: string, entries: ChangeLogEntry[]): Promise<void> => {
+    if (entries.length === 0) return;
+    const dataset = await Actor.openDataset(datasetName);
+    await dataset.pushData(entries);
+};
@@ -0,0 +1,159 @@
+import { CheerioRoot } from 'crawlee';
+import { CheerioNodes } from './dom.js';
+
+// Languages of the ads: Bokmål, Nynorsk and English
+export type Language = 'nb' | 'nn' | 'en';
+
+// The labels the scraper looks for on ads and company profiles
+export type LabelKey =
+    | 'contactPerson'
+    | 'jobTitle'
+    | 'recruitingManager'
+    | 'company'
+    | 'aboutEmployer'
+    | 'location'
+    | 'companyLocation'
+    | 'employmentType'
+    | 'employmentTypes' // Values rather than a label: the employment types looked for in the ad text
+    | 'deadline'
+    | 'lastModified'
+    | 'salary'
+    | 'apply'
+    | 'website'
+    | 'industry'
+    | 'employeeCount'
+    | 'address';
+
+export type LabelDictionary = Record<LabelKey, string[]>;
+
+// Extra labels from the input, tried before the bundled ones
+export type LabelAliases = Partial<Record<LabelKey, string[]>>;
+
+// Per language, the labels of its dictionary followed by those of the other languages and the input aliases in front
+export type LabelSets = Record<Language, LabelDictionary>;
+
+const LANGUAGES: Language[] = ['nb', 'nn', 'en'];
+
+// Labels are matched as case-sensitive substrings, like Cheerio's :contains(), so common capitalisations are listed
+const DICTIONARIES: LabelSets = {
+    nb: {
+        contactPerson: ['Kontaktperson'],
+        jobTitle: ['Stillingstittel'],
+        recruitingManager: ['Rekrutterende leder'],
+        company: ['Firma', 'Arbeidsgiver'],
+        aboutEmployer: ['Om arbeidsgiveren', 'Om oss'],
+        location: ['Sted', 'Arbeidssted'],
+        companyLocation: ['Firmaets beliggenhet'],
+        employmentType: ['Ansettelsesform'],
+        employmentTypes: [
+            'Fast', 'Deltid', 'Heltid', 'Engasjement', 'Prosjekt', 'Sesong',
+            'Vikariat', 'Franchise', 'Selvstendig næringsdrivende', 'Timebasert',
+        ],
+        deadline: ['Frist', 'Søknadsfrist'],
+        lastModified: ['Sist endret'],
+        salary: ['Lønn'],
+        apply: ['Søk'],
+        website: ['Hjemmeside', 'Nettsted'],
+        industry: ['Bransje'],
+        employeeCount: ['Antall ansatte', 'Ansatte'],
+        address: ['Besøksadresse', 'Adresse'],
+    },
+    nn: {
+        contactPerson: ['Kontaktperson'],
+        jobTitle: ['Stillingstittel'],
+        recruitingManager: ['Rekrutterande leiar'],
+        company: ['Firma', 'Arbeidsgjevar', 'Arbeidsgivar'],
+        aboutEmployer: ['Om arbeidsgjevaren', 'Om arbeidsgivaren', 'Om oss'],
+        location: ['Stad', 'Arbeidsstad'],
+        companyLocation: ['Firmaet si plassering'],
+        employmentType: ['Tilsetjingsform', 'Tilsettingsform'],
+        employmentTypes: ['Fast', 'Deltid', 'Heiltid', 'Engasjement', 'Prosjekt', 'Sesong', 'Vikariat', 'Timebasert'],
+        deadline: ['Frist', 'Søknadsfrist'],
+        lastModified: ['Sist endra'],
+        salary: ['Løn'],
+        apply: ['Søk'],
+        website: ['Heimeside', 'Nettstad'],
+        industry: ['Bransje'],
+        employeeCount: ['Tal på tilsette', 'Tilsette'],
+        address: ['Besøksadresse', 'Adresse'],
+    },
+    en: {
+        contactPerson: ['Contact person', 'Contact Person'],
+        jobTitle: ['Job title', 'Job Title', 'Position'],
+        recruitingManager: ['Hiring manager', 'Hiring Manager', 'Recruiting manager', 'Recruiting Manager'],
+        company: ['Company', 'Employer'],
+        aboutEmployer: ['About the employer', 'About the company', 'About us'],
+        location: ['Location', 'Work location', 'Place of work'],
+        companyLocation: ['Company location'],
+        employmentType: ['Employment type', 'Type of employment'],
+        employmentTypes: ['Permanent', 'Full-time', 'Part-time', 'Temporary', 'Contract', 'Freelance', 'Internship'],
+        deadline: ['Deadline', 'Application deadline', 'Apply by'],
+        lastModified: ['Last modified', 'Last updated'],
+        salary: ['Salary'],
+        apply: ['Apply'],
+        website: ['Website', 'Homepage'],
+        industry: ['Industry', 'Sector'],
+        employeeCount: ['Number of employees', 'Employees'],
+        address: ['Visiting address', 'Address'],
+    },
+};
+
+// Common words that tell the languages apart. Nynorsk and Bokmål share most of theirs, so they are told apart
+// by the words only one of them uses.
+const ENGLISH_WORDS = new Set(['the', 'and', 'you', 'we', 'our', 'with', 'for', 'are', 'will', 'be', 'this', 'your', 'of', 'to', 'in', 'is']);
+const NORWEGIAN_WORDS = new Set(['og', 'er', 'vi', 'du', 'som', 'med', 'til', 'for', 'har', 'det', 'av', 'på', 'deg', 'oss', 'hos', 'eller', 'skal', 'kan']);
+const BOKMAL_WORDS = new Set(['ikke', 'fra', 'hva', 'hvordan', 'en', 'et', 'de', 'være', 'noe', 'mye', 'jeg', 'hvis', 'arbeidsgiver', 'også']);
+const NYNORSK_WORDS = new Set(['ikkje', 'frå', 'kva', 'korleis', 'ein', 'eit', 'dei', 'vere', 'noko', 'mykje', 'eg', 'dersom', 'arbeidsgjevar', 'hjå', 'me']);
+
+// Texts shorter than this don't tell the language reliably
+const MIN_WORDS = 20;
+
+const countWords = (words: string[], dictionary: Set<string>): number => words.filter((word) => dictionary.has(word)).length;
+
+// The language of an ad's text, falling back to the page's lang attribute for short texts
+export const detectLanguage = (text: string, langAttribute?: string): Language | undefined => {
+    const words = text.toLowerCase().match(/[\p{L}]+/gu) ?? [];
+    if (words.length >= MIN_WORDS) {
+        const english = countWords(words, ENGLISH_WORDS);
+        const norwegian = countWords(words, NORWEGIAN_WORDS);
+        if (english > norwegian) return 'en';
+        if (norwegian > 0) return countWords(words, NYNORSK_WORDS) > countWords(words, BOKMAL_WORDS) ? 'nn' : 'nb';
+    }
+
+    const lang = langAttribute?.toLowerCase().split('-')[0];
+    if (lang === 'en') return 'en';
+    if (lang === 'nn') return 'nn';
+    if (lang === 'nb' || lang === 'no') return 'nb';
+    return undefined;
+};
+
+// Build the label set of each language: the input aliases, then the language's own labels, then the other languages'
+export const buildLabelSets = (aliases: LabelAliases = {}): LabelSets => {
+    const build = (language: Language): LabelDictionary => {
+        const order = [language, ...LANGUAGES.filter((other) => other !== language)];
+        const keys = Object.keys(DICTIONARIES.nb) as LabelKey[];
+        return Object.fromEntries(keys.map((key) => [
+            key,
+            [...new Set([...(aliases[key] ?? []), ...order.flatMap((other) => DICTIONARIES[other][key])])],
+        ])) as LabelDictionary;
+    };
+    return { nb: build('nb'), nn: build('nn'), en: build('en') };
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Elements of the given type containing a label, for the first label in the list that any element contains
+export const findByLabel = ($: CheerioRoot, element: string, labels: string[]): CheerioNodes => {
+    const selectors = labels.map((label) => `${element}:contains("${label.replace(/"/g, '\\"')}")`);
+    return $(selectors.find((selector) => $(selector).length > 0) ?? ':not(*)');
+};
+
+// Whether a text contains any of the labels
+export const includesAny = (text: string, labels: string[]): boolean => labels.some((label) => text.includes(label));
+
+// Remove the first label found in a text, with the colon after it
+export const removeLabel = (text: string, labels: string[]): string => {
+    if (labels.length === 0) return text;
+    const alternatives = [...labels].sort((a, b) => b.length - a.length).map(escapeRegExp);
+    return text.replace(new RegExp(`(${alternatives.join('|')}):?`), '');
+};
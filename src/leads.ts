@@ -0,0 +1,118 @@
+import { Actor } from 'apify';
+
+// One recruiter or hiring manager, merged across every ad they are listed on
+export interface Lead {
+    leadId: string;
+    name: string;
+    roles: string[];
+    companies: string[];
+    phones: string[];
+    emails: string[];
+    finnkodes: string[];
+    firstSeen: string;
+    lastSeen: string;
+}
+
+// The fields of a job record the leads are built from
+export interface LeadSource {
+    finnkode?: string;
+    company: string;
+    contactPersons?: { name: string; role?: string; phoneNumber?: string; email?: string }[];
+}
+
+// Key under which all known leads are stored in the named KeyValueStore
+const LEADS_KEY = 'LEADS';
+
+const normalizeText = (value: string): string => value
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Company names differ in their legal suffix between ads ("Firma AS", "Firma")
+const normalizeCompany = (company: string): string => normalizeText(company).replace(/\b(asa|as|sa|da|ans|ab|ltd)\.?$/, '').trim();
+
+// Match keys of a lead, in the order they are trusted: email, then phone, then name and company
+const matchKeys = (lead: Pick<Lead, 'emails' | 'phones' | 'name' | 'companies'>): string[] => [
+    ...lead.emails.map((email) => `email:${email.toLowerCase()}`),
+    ...lead.phones.map((phone) => `phone:${phone}`),
+    ...lead.companies.map((company) => `name:${normalizeText(lead.name)}|${normalizeCompany(company)}`),
+];
+
+const union = (a: string[], b: string[]): string[] => [...new Set([...a, ...b])];
+
+const mergeInto = (target: Lead, source: Lead): void => {
+    target.roles = union(target.roles, source.roles);
+    target.companies = union(target.companies, source.companies);
+    target.phones = union(target.phones, source.phones);
+    target.emails = union(target.emails, source.emails);
+    target.finnkodes = union(target.finnkodes, source.finnkodes);
+    if (source.firstSeen < target.firstSeen) target.firstSeen = source.firstSeen;
+    if (source.lastSeen > target.lastSeen) target.lastSeen = source.lastSeen;
+};
+
+// Merge the contact persons of the scraped jobs into the leads of earlier runs.
+// Returns every lead, and the ones listed on this run's ads.
+export const mergeLeads = (previous: Lead[], jobs: LeadSource[], seenAt: string): { leads: Lead[]; seen: Lead[] } => {
+    const leads = new Set<Lead>();
+    const byKey = new Map<string, Lead>();
+    const seen = new Set<Lead>();
+
+    const add = (candidate: Lead): Lead => {
+        const keys = matchKeys(candidate);
+        const matches = [...new Set(keys.map((key) => byKey.get(key)).filter((lead): lead is Lead => lead !== undefined))];
+
+        // The contact may link leads that were separate so far, e.g. an email on one ad and a phone on another
+        const [target = candidate, ...others] = matches;
+        if (target !== candidate) mergeInto(target, candidate);
+        for (const other of others) {
+            mergeInto(target, other);
+            leads.delete(other);
+            if (seen.delete(other)) seen.add(target);
+        }
+
+        leads.add(target);
+        for (const key of matchKeys(target)) byKey.set(key, target);
+        return target;
+    };
+
+    for (const lead of previous) add({ ...lead });
+
+    for (const job of jobs) {
+        for (const contact of job.contactPersons ?? []) {
+            if (!contact.name && !contact.email && !contact.phoneNumber) continue;
+            const lead = add({
+                leadId: '',
+                name: contact.name,
+                roles: contact.role ? [contact.role] : [],
+                companies: job.company ? [job.company] : [],
+                phones: contact.phoneNumber ? [contact.phoneNumber] : [],
+                emails: contact.email ? [contact.email.toLowerCase()] : [],
+                finnkodes: job.finnkode ? [job.finnkode] : [],
+                firstSeen: seenAt,
+                lastSeen: seenAt,
+            });
+            seen.add(lead);
+        }
+    }
+
+    // A lead keeps the id it got first; new ones are named after their most trusted key
+    for (const lead of leads) {
+        lead.leadId ||= matchKeys(lead)[0] ?? `name:${normalizeText(lead.name)}`;
+    }
+
+    return { leads: [...leads], seen: [...seen] };
+};
+
+// Load the leads of earlier runs from the named KeyValueStore
+export const loadLeads = async (storeName: string): Promise<Lead[]> => {
+    const store = await Actor.openKeyValueStore(storeName);
+    return (await store.getValue<Lead[]>(LEADS_KEY)) || [];
+};
+
+// Persist every known lead so the next run can merge into them
+export const saveLeads = async (storeName: string, leads: Lead[]): Promise<void> => {
+    const store = await Actor.openKeyValueStore(storeName);
+    await store.setValue(LEADS_KEY, leads);
+};
@@ -0,0 +1,168 @@
+import { loadBundledJson } from './data.js';
+
+// A work location parsed from the ad's free-text location
+export interface LocationData {
+    raw: string;
+    streetAddress?: string;
+    postalCode?: string;
+    city?: string;
+    municipality?: string;
+    county?: string;
+    country?: string;
+}
+
+// Postal code -> [postal town, municipality, county], from Bring's postal code register
+type PostalRegister = Record<string, [string, string, string]>;
+
+interface RegisterEntry {
+    city: string;
+    municipality: string;
+    county?: string;
+}
+
+const register = loadBundledJson<PostalRegister>('postal-codes.json');
+
+const LOWERCASE_WORDS = new Set(['i', 'og', 'på']);
+
+// "MO I RANA" -> "Mo i Rana", "NORD-FRON" -> "Nord-Fron"
+const titleCase = (name: string): string => {
+    return name
+        .toLowerCase()
+        .split(' ')
+        .map((word, index) => (index > 0 && LOWERCASE_WORDS.has(word)
+            ? word
+            : word.replace(/(^|-)(\p{L})/gu, (_, dash: string, letter: string) => `${dash}${letter.toUpperCase()}`)))
+        .join(' ');
+};
+
+const lookupPostalCode = (postalCode: string): RegisterEntry | undefined => {
+    const entry = register[postalCode];
+    if (!entry) return undefined;
+
+    const [city, municipality, county] = entry;
+    return { city: titleCase(city), municipality: titleCase(municipality), county: titleCase(county) };
+};
+
+// Postal town and municipality names -> a postal code in that place, for locations given without a postal code
+let placeIndex: Map<string, string> | undefined;
+const lookupPlaceName = (name: string): RegisterEntry | undefined => {
+    if (!placeIndex) {
+        placeIndex = new Map();
+        for (const [postalCode, [city, municipality]] of Object.entries(register)) {
+            if (!placeIndex.has(municipality)) placeIndex.set(municipality, postalCode);
+            if (!placeIndex.has(city)) placeIndex.set(city, postalCode);
+        }
+    }
+
+    const postalCode = placeIndex.get(name.toUpperCase());
+    const entry = postalCode ? lookupPostalCode(postalCode) : undefined;
+    // The name may be a municipality rather than a postal town, so keep the name as written for the city
+    return entry ? { ...entry, city: titleCase(name) } : undefined;
+};
+
+// Counties that ads still name after the county reforms, with the county they are part of today.
+// Those split up again in 2024 have no single county.
+const FORMER_COUNTIES: Record<string, string | undefined> = {
+    HORDALAND: 'Vestland',
+    'SOGN OG FJORDANE': 'Vestland',
+    HEDMARK: 'Innlandet',
+    OPPLAND: 'Innlandet',
+    'AUST-AGDER': 'Agder',
+    'VEST-AGDER': 'Agder',
+    'SØR-TRØNDELAG': 'Trøndelag',
+    'NORD-TRØNDELAG': 'Trøndelag',
+    VIKEN: undefined,
+    'VESTFOLD OG TELEMARK': undefined,
+    'TROMS OG FINNMARK': undefined,
+};
+
+// County names, today's and former ones, -> the county today
+let countyIndex: Map<string, string | undefined> | undefined;
+const lookupCounty = (name: string): Partial<LocationData> | undefined => {
+    if (!countyIndex) {
+        countyIndex = new Map(Object.entries(FORMER_COUNTIES));
+        for (const [, , county] of Object.values(register)) countyIndex.set(county, titleCase(county));
+    }
+
+    const key = name.toUpperCase();
+    if (!countyIndex.has(key)) return undefined;
+    const county = countyIndex.get(key);
+    return county ? { county, country: 'NO' } : { country: 'NO' };
+};
+
+// "Norge", "Norway" and the Nynorsk "Noreg"
+const NORWAY_PATTERN = /^(norge|norway|noreg)$/i;
+
+const PLACE_SEPARATOR = /,|\/|\bog\b|\band\b/;
+
+// Names that contain a place separator themselves, such as "Møre og Romsdal" and "Nore og Uvdal"
+let compoundNamePattern: RegExp | undefined;
+
+// Split a list of places, keeping whole the county and municipality names that contain a separator
+const splitPlaces = (text: string): string[] => {
+    if (!compoundNamePattern) {
+        const names = new Set([...Object.values(register).flatMap(([, municipality, county]) => [municipality, county]), ...Object.keys(FORMER_COUNTIES)]);
+        const compounds = [...names].filter((name) => PLACE_SEPARATOR.test(name.toLowerCase()));
+        compoundNamePattern = new RegExp(`(?<!\\p{L})(${compounds.join('|')})(?!\\p{L})`, 'iu');
+    }
+
+    // The capturing group keeps the compound names in the split, at the odd indexes
+    return text
+        .split(compoundNamePattern)
+        .flatMap((part, index) => (index % 2 === 1 ? [part] : part.split(PLACE_SEPARATOR)));
+};
+
+// "Storgata 1, 0150 Oslo" and "0150 OSLO" - a Norwegian postal code followed by the postal town
+const POSTAL_CODE_PATTERN = /\b(\d{4})\s+(\p{L}[\p{L} .-]*)/u;
+
+const FOREIGN_COUNTRIES: [RegExp, string][] = [
+    [/\b(sverige|sweden)\b/i, 'SE'],
+    [/\b(danmark|denmark)\b/i, 'DK'],
+    [/\b(finland)\b/i, 'FI'],
+];
+
+const parseSingleLocation = (raw: string): LocationData => {
+    const text = raw.replace(/\s+/g, ' ').trim();
+    const location: LocationData = { raw: text };
+    if (NORWAY_PATTERN.test(text)) return { ...location, country: 'NO' };
+
+    const foreignCountry = FOREIGN_COUNTRIES.find(([pattern]) => pattern.test(text))?.[1];
+    if (foreignCountry) {
+        location.country = foreignCountry;
+        location.city = text.split(',')[0].trim();
+        return location;
+    }
+
+    const postalMatch = text.match(POSTAL_CODE_PATTERN);
+    if (postalMatch) {
+        const street = text.slice(0, postalMatch.index).replace(/[,\s]+$/, '');
+        location.streetAddress = street || undefined;
+        location.postalCode = postalMatch[1];
+        Object.assign(location, lookupPostalCode(postalMatch[1]) ?? { city: titleCase(postalMatch[2].split(',')[0].trim()) });
+    } else {
+        Object.assign(location, lookupPlaceName(text) ?? lookupCounty(text) ?? { city: text });
+    }
+
+    // Everything that can be looked up in the Norwegian register is in Norway
+    if (location.municipality) location.country = 'NO';
+    return location;
+};
+
+// Addresses with a postal code or a country name use commas within a single location
+const isSingleAddress = (text: string): boolean => {
+    return POSTAL_CODE_PATTERN.test(text) || FOREIGN_COUNTRIES.some(([pattern]) => pattern.test(text));
+};
+
+// Parse the free-text location of an ad into one or more structured locations.
+// Full addresses are kept whole; lists of places ("Oslo, Bergen og Trondheim") become several locations.
+export const parseLocations = (raw: string): LocationData[] => {
+    return raw
+        .split(/[;\n|]/)
+        .flatMap((chunk) => {
+            const places = (isSingleAddress(chunk) ? [chunk] : splitPlaces(chunk)).map((place) => place.trim()).filter(Boolean);
+            // In "Oslo, Norway" the country is where the other places are rather than a place of its own
+            const named = places.filter((place) => !NORWAY_PATTERN.test(place));
+            if (named.length === places.length || named.length === 0) return places.map(parseSingleLocation);
+            return named.map((place) => ({ ...parseSingleLocation(place), country: 'NO' }));
+        });
+};
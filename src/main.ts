@@ -1,42 +1,127 @@
 // Apify SDK - toolkit for building Apify Actors (Read more at https://docs.apify.com/sdk/js/)
 import { Actor } from 'apify';
 // Crawlee - web scraping and browser automation library (Read more at https://crawlee.dev)
-import { CheerioCrawler, Dataset, createCheerioRouter, EnqueueStrategy, Request } from 'crawlee';
+import { CheerioCrawler, Dataset, EnqueueStrategy, Log, PlaywrightCrawler, Request, RequestQueue, Router, log as runLog } from 'crawlee';
 // this is ESM project, and as such, it requires you to specify extensions in your relative imports
 // read more about this here: https://nodejs.org/docs/latest-v18.x/api/esm.html#mandatory-file-extensions
 // note that we need to use `.js` even when inside TS files
 // import { router } from './routes.js';
+import { AdIndex, RemovedAdRecord, classifyAd, collectRemovedAds, hashJobData, loadAdIndex, recordAd, saveAdIndex } from './delta.js';
+import { SearchFilters, buildSearchSeeds, isPublishedWithin } from './search.js';
+import { JobSection, classifyFinnUrl } from './urls.js';
+import { Company, extractCompanyDetails, mergeCompany, rekeyCompany } from './company.js';
+import { SkillDefinition, buildTaxonomy } from './skills.js';
+import {
+    DeliveryRecord,
+    NotificationFilters,
+    NotificationTarget,
+    buildPayloads,
+    deliver,
+    loadDeliveryLog,
+    matchesFilters,
+    replayFailedDeliveries,
+    saveDeliveryLog,
+    validateTargets,
+} from './notifications.js';
+import { DEFAULT_EXPORT_COLUMNS, ExportFormat, exportJobs } from './exports.js';
+import { loadLeads, mergeLeads, saveLeads } from './leads.js';
+import { DuplicateHistory, buildDuplicateIndex, findDuplicate, loadDuplicateHistory, saveDuplicateHistory } from './duplicates.js';
+import { PageContext, Renderer, createBrowserRouter, toBrowserRequest } from './rendering.js';
+import { LabelAliases, buildLabelSets } from './labels.js';
+import {
+    QuotaState, completeSlot, createQuota, hasFreeSlot, isReserved, isSlotDone, isWaiting, releaseSlot, reserveSlot, skipSlot, usedSlots,
+} from './quota.js';
+import { loadRunState, persistRunStateOnEvents } from './runState.js';
+import { ExpiredAdRecord, classifyFailure, detectBlockPage, isExpiredAd, recordFailure } from './failures.js';
+import { BlockedPageError, ParseError } from './errors.js';
+import { JobData, ListedLink, ListingRecord, ParsedJobAd, extractJobAd, extractSearchPage, toListingRecord } from './parser.js';
+import { ReportableJob, buildMarketReport, saveMarketReport, toReportableJob } from './report.js';
+import { AdHistory, closeAd, closeRemovedAds, loadAdHistory, markListed, recordAdVersion, recordChanges, saveAdHistory } from './history.js';
+import {
+    CoverageStats,
+    DEFAULT_COVERAGE_THRESHOLDS,
+    buildCoverageReport,
+    createCoverageStats,
+    recordCoverage,
+    saveCoverageReport,
+    validateCoverageThresholds,
+} from './coverage.js';
+
+// What the run scrapes: only the search result cards, the detail page of every listed ad,
+// or the detail pages of the ads whose cards pass listingFilters
+type ScrapeMode = 'listing' | 'detail' | 'cardsThenDetails';
 
 // Define the input schema for the actor
-interface Input {
-    searchUrl: string;
+interface Input extends SearchFilters {
+    searchUrl?: string; // Kept for backwards compatibility, prefer searchUrls
+    searchUrls?: string[];
     maxJobs: number;
+    incremental?: boolean;
+    indexStoreName?: string;
+    maxDescriptionLength?: number; // 0 keeps the full description
+    scrapeCompanyProfiles?: boolean;
+    companyDatasetName?: string;
+    skillTaxonomy?: SkillDefinition[]; // Added to, or replacing entries of, the bundled taxonomy
+    replaceSkillTaxonomy?: boolean;
+    notifications?: NotificationTarget[];
+    notificationStoreName?: string;
+    replayFailedNotifications?: boolean;
+    exportFormats?: ExportFormat[];
+    exportColumns?: string[];
+    collectLeads?: boolean;
+    leadsDatasetName?: string;
+    leadsStoreName?: string;
+    detectDuplicates?: boolean;
+    duplicateThreshold?: number; // Percent, weighted similarity of description, title, company and emails
+    suppressDuplicates?: boolean;
+    duplicateStoreName?: string;
+    hybridMode?: boolean; // Render pages in a browser when the plain HTML comes back empty
+    labelAliases?: LabelAliases; // Extra labels to look for, in front of the bundled nb, nn and en ones
+    failedRequestsDatasetName?: string;
+    coverageThresholds?: Record<string, number>; // Minimum percentage of ads with the field filled, per JobData field
+    failOnLowCoverage?: boolean; // Fail the run rather than only warn when a field falls below its threshold
+    trackHistory?: boolean;
+    historyStoreName?: string;
+    changeLogDatasetName?: string;
+    mode?: ScrapeMode | 'hybrid'; // hybrid is another name for cardsThenDetails
+    listingFilters?: NotificationFilters; // Applied to the search result cards in listing and cardsThenDetails mode
+}
+
+// An ad collected from the search results, waiting for its detail page to be scraped
+interface ListedAd extends ListedLink {
+    searches: string[];
 }
 
-// Define a contact person data structure
-interface ContactPersonData {
-    name: string;
-    role?: string;
-    phoneNumber?: string;
-    email?: string;
+// How far the run got: listing the searches, scraping the ads, visiting the company profiles, or the stages after the crawl
+type RunPhase = 'list' | 'detail' | 'company' | 'finish';
+
+interface SearchProgress {
+    pagesVisited: number;
+    adsListed: number;
+    totalResults?: number; // As the first result page of the search shows it
 }
 
-// Define the job data structure
-interface JobData {
-    url: string;
-    title: string;
-    description: string;
-    company: string;
-    contactPersons?: ContactPersonData[]; // Array of contact persons
-    email?: string;
-    applicationUrl?: string;
-    location?: string;
-    employmentType?: string;
-    salary?: string;
-    publicationDate?: string;
-    expirationDate?: string;
-    finnkode?: string;
-    companyLogoUrl?: string;
+// What a migrated or restarted run needs to pick up where it left off. The request queue already
+// remembers which pages were handled.
+interface RunState {
+    phase: RunPhase;
+    quota: QuotaState;
+    searches: Record<string, SearchProgress>;
+    listedAds: ListedAd[];
+    listedFinnkodes: string[];
+    listingComplete: boolean;
+    companies: Company[];
+    companyProfiles: [string, string][];
+    notificationBatches: JobData[][];
+    browserFallbacks: { url: string; uniqueKey: string; userData: Record<string, unknown> }[];
+    coverage: CoverageStats;
+    // The stores of earlier runs as this run has updated them so far, saved at the end of the run
+    adIndex: AdIndex;
+    duplicateHistory: DuplicateHistory;
+    deliveryLog: DeliveryRecord[];
+    adHistory: AdHistory;
+    knownFinnkodes?: string[];
+    reportAds: Record<string, ReportableJob>;
 }
 
 // Initialize the Actor
@@ -44,682 +129,424 @@ await Actor.init();
 
 // Get input from the user
 const input = await Actor.getInput<Input>();
-const searchUrl = input?.searchUrl || 'https://www.finn.no/job/fulltime/search.html?occupation=0.23&occupation=0.22';
+const searchSeeds = buildSearchSeeds([...(input?.searchUrls ?? []), ...(input?.searchUrl ? [input.searchUrl] : [])], input ?? {});
 const maxJobs = input?.maxJobs || 100;
+const runStartedAt = new Date();
+const incremental = input?.incremental ?? false;
+const indexStoreName = input?.indexStoreName || 'finn-job-index';
+const maxDescriptionLength = input?.maxDescriptionLength ?? 0;
+const scrapeCompanyProfiles = input?.scrapeCompanyProfiles ?? true;
+const companyDatasetName = input?.companyDatasetName || 'finn-companies';
+const skillTaxonomy = buildTaxonomy(input?.skillTaxonomy, input?.replaceSkillTaxonomy);
+const notificationTargets = input?.notifications ?? [];
+const notificationStoreName = input?.notificationStoreName || 'finn-notifications';
+const replayFailedNotifications = input?.replayFailedNotifications ?? false;
+const exportFormats = input?.exportFormats ?? [];
+const exportColumns = input?.exportColumns?.length ? input.exportColumns : DEFAULT_EXPORT_COLUMNS;
+const collectLeads = input?.collectLeads ?? false;
+const leadsDatasetName = input?.leadsDatasetName || 'finn-leads';
+const leadsStoreName = input?.leadsStoreName || 'finn-leads';
+const detectDuplicates = input?.detectDuplicates ?? true;
+const duplicateThreshold = (input?.duplicateThreshold ?? 70) / 100;
+const suppressDuplicates = input?.suppressDuplicates ?? false;
+const duplicateStoreName = input?.duplicateStoreName || 'finn-duplicates';
+const hybridMode = input?.hybridMode ?? false;
+const labelSets = buildLabelSets(input?.labelAliases);
+const failedRequestsDatasetName = input?.failedRequestsDatasetName || 'finn-failed-requests';
+const coverageThresholds = input?.coverageThresholds ?? DEFAULT_COVERAGE_THRESHOLDS;
+const failOnLowCoverage = input?.failOnLowCoverage ?? false;
+const trackHistory = input?.trackHistory ?? false;
+const historyStoreName = input?.historyStoreName || 'finn-ad-history';
+const changeLogDatasetName = input?.changeLogDatasetName || 'finn-ad-changes';
+const mode: ScrapeMode = input?.mode === 'hybrid' ? 'cardsThenDetails' : input?.mode ?? 'detail';
+const listingFilters = input?.listingFilters ?? {};
+
+// Reject input that would otherwise only fail once the run is under way
+const inputErrors = [...validateTargets(notificationTargets), ...validateCoverageThresholds(coverageThresholds)];
+if (inputErrors.length > 0) {
+    await Actor.fail(`Invalid input: ${inputErrors.join('; ')}`);
+}
 
-console.log('Starting crawler with URL:', searchUrl);
+runLog.info('Starting crawler with URLs:', { urls: searchSeeds.map((seed) => seed.url) });
 
 // Set up proxy configuration
 const proxyConfiguration = await Actor.createProxyConfiguration();
 
-// Create a counter to track how many jobs we've scraped
-let scrapedJobsCount = 0;
+// State saved by an earlier start of this run, if it migrated to another server or restarted
+const savedState = await loadRunState<RunState>();
+let phase: RunPhase = savedState?.phase ?? 'list';
+
+// The maxJobs quota, with a slot per listed ad, and how many pages and ads each search listed
+const quota = savedState?.quota ?? createQuota(maxJobs);
+const searchProgress: Record<string, SearchProgress> = savedState?.searches ?? {};
+
+// Ads collected from all searches, keyed by finnkode so an ad listed by several searches is only scraped once.
+// Ads listed after the quota was full are kept too, to take the slots of ads that fail.
+const listedAds = new Map<string, ListedAd>((savedState?.listedAds ?? []).map((ad) => [ad.finnkode, ad]));
+
+// In incremental mode, load the index of ads seen in previous runs. A resumed run goes on with the index as it left it,
+// so the ads it already output are in it.
+const adIndex: AdIndex = savedState?.adIndex ?? (incremental ? await loadAdIndex(indexStoreName) : {});
+
+// Every finnkode listed in this run's search results, and whether pagination was cut short by maxJobs.
+// Removed ads can only be detected reliably when all result pages were visited.
+const listedFinnkodes = new Set<string>(savedState?.listedFinnkodes);
+let listingComplete = savedState?.listingComplete ?? true;
+
+// Employers of the scraped ads keyed by companyId, and the company profiles to visit, mapped to their companyId
+const companies = new Map<string, Company>((savedState?.companies ?? []).map((company) => [company.companyId, company]));
+const companyProfiles = new Map<string, string>(savedState?.companyProfiles);
+
+// Versions of every ad on the market, for the change log. Changes are stamped with the start of the run.
+// A resumed run goes on with the versions it already recorded.
+const adHistory: AdHistory = savedState?.adHistory ?? (trackHistory ? await loadAdHistory(historyStoreName) : {});
+const observedAt = runStartedAt.toISOString();
+
+// Ads that earlier runs already saw, to tell new ads from returning ones in the report. Unknown without either store.
+// A resumed run keeps the set it started with, as its index already has the ads it found itself.
+const knownFinnkodes = (savedState?.knownFinnkodes && new Set(savedState.knownFinnkodes))
+    ?? (incremental || trackHistory ? new Set([...Object.keys(adIndex), ...Object.keys(adHistory)]) : undefined);
+
+// Every ad the run found on the market, for the report, keyed by finnkode. A resumed run keeps those it already found.
+const reportAds: Record<string, ReportableJob> = savedState?.reportAds ?? {};
+
+// Ads compared for reposts and cross-posts, in this run and in earlier runs
+const duplicateIndex = buildDuplicateIndex(savedState?.duplicateHistory ?? (detectDuplicates ? await loadDuplicateHistory(duplicateStoreName) : {}));
+
+// Log of every notification delivery, kept in a named KeyValueStore so failed deliveries can be replayed
+const useNotifications = notificationTargets.length > 0 || replayFailedNotifications;
+const deliveryLog: DeliveryRecord[] = savedState?.deliveryLog ?? (useNotifications ? await loadDeliveryLog(notificationStoreName) : []);
+// A resumed run already replayed them
+if (replayFailedNotifications && !savedState) {
+    const replayed = await replayFailedDeliveries(deliveryLog, notificationTargets);
+    runLog.info(`Replayed ${replayed} previously failed notification deliveries`);
+}
+
+// Matching ads waiting for the end-of-run notification, one list per notification target
+const notificationBatches = savedState?.notificationBatches ?? notificationTargets.map((): JobData[] => []);
+
+// Per-ad notifications are sent one after another per target, outside the request handlers, so a slow or
+// rate-limited target doesn't hold up the crawl. The run waits for them before it saves the delivery log.
+const perAdDeliveries = notificationTargets.map(() => Promise.resolve());
+
+// In hybrid mode, pages whose extraction comes back empty - Finn sometimes serves client-rendered markup -
+// are rendered in a browser after each phase instead of being lost
+const browserFallbacks: Request[] = (savedState?.browserFallbacks ?? []).map((options) => new Request(options));
+
+// How often each field was filled, and by which source or selector fallback, across the ads extracted in this run
+const coverage = savedState?.coverage ?? createCoverageStats();
+
+// Queue a request for the browser crawler. Returns false when it can't be rendered any better.
+const fallBackToBrowser = (request: Request, reason: string, log: Log): boolean => {
+    if (!hybridMode || (request.userData as { renderer?: Renderer }).renderer === 'playwright') return false;
+    log.warning(`${reason}, rendering ${request.url} in a browser`);
+    browserFallbacks.push(toBrowserRequest(request));
+    return true;
+};
 
-// Create a router for handling different URL patterns
-const router = createCheerioRouter();
+// In listing and cardsThenDetails mode, only ads whose cards pass listingFilters and the publication window take a slot
+const passesListingFilters = (ad: ListedLink): boolean => {
+    if (mode === 'detail') return true;
+    const record = toListingRecord(ad);
+    return matchesFilters(record, listingFilters) && isPublishedWithin(record.publicationDate, input?.publishedWithinDays);
+};
+
+// Record a page that failed for good in the failed-request dataset. An ad gives its quota slot to another listed ad.
+const handleFailedRequest = async (request: Request, error: Error): Promise<void> => {
+    const finnkode = classifyFinnUrl(request.url)?.finnkode;
+    if (request.label === 'DETAIL' && finnkode) releaseSlot(quota, finnkode);
+
+    await recordFailure(failedRequestsDatasetName, {
+        url: request.url,
+        label: request.label,
+        retryCount: request.retryCount,
+        ...classifyFailure(error),
+        errorMessage: error.message,
+    });
+};
+
+if (savedState) {
+    runLog.info(`Resuming the run in the ${phase} phase, ${usedSlots(quota)} of ${maxJobs} job slots taken`);
+}
+
+persistRunStateOnEvents((): RunState => ({
+    phase,
+    quota,
+    searches: searchProgress,
+    listedAds: [...listedAds.values()],
+    listedFinnkodes: [...listedFinnkodes],
+    listingComplete,
+    companies: [...companies.values()],
+    companyProfiles: [...companyProfiles],
+    notificationBatches,
+    browserFallbacks: browserFallbacks.map((request) => ({ url: request.url, uniqueKey: request.uniqueKey, userData: request.userData })),
+    coverage,
+    adIndex,
+    duplicateHistory: duplicateIndex.history,
+    deliveryLog,
+    adHistory,
+    knownFinnkodes: knownFinnkodes && [...knownFinnkodes],
+    reportAds,
+}));
+
+// Create a router for handling different URL patterns. Its handlers only use what both crawlers provide,
+// so the browser crawler can run them on rendered pages.
+const router = Router.create<PageContext>();
 
 // Handle the search results page
-router.addHandler('LIST', async ({ request, $, log, enqueueLinks }) => {
+router.addHandler('LIST', async ({ request, response, $, log, enqueueLinks }) => {
     log.info(`Processing search results page ${request.url}`);
-    
+
     // Verify this is actually a Finn.no search page
     if (!request.url.includes('finn.no')) {
         log.warning(`Skipping non-Finn.no URL: ${request.url}`);
         return;
     }
-    
-    // Debug: Log the raw HTML to check what we're getting
-    log.info('HTML structure check:', {
-        bodyLength: $('body').html()?.length || 0,
-        hasJobsList: Boolean($('.ads__unit').length || $('.f-card').length || $('.sf-search-ad').length),
-        possibleJobSelectors: {
-            adsUnit: $('.ads__unit').length,
-            fCard: $('.f-card').length,
-            searchAd: $('.sf-search-ad').length,
-            genericAnchor: $('a[href*="/job/fulltime/ad.html"]').length
-        }
-    });
-    
-    // Try multiple selector patterns to find job listings
-    let jobLinks = $('.ads__unit > .ads__unit__link'); // Original selector
-    
-    // If the original selector doesn't find anything, try alternative selectors
-    if (jobLinks.length === 0) {
-        jobLinks = $('.f-card--job a');
-    }
-    
-    if (jobLinks.length === 0) {
-        jobLinks = $('.sf-search-ad a');
-    }
-    
-    if (jobLinks.length === 0) {
-        jobLinks = $('a[href*="/job/fulltime/ad.html"]');
-    }
-    
-    log.info(`Found ${jobLinks.length} job listings on this page`);
-    
-    // Check if we've reached the maximum number of jobs
-    const remainingJobs = maxJobs - scrapedJobsCount;
-    
-    if (remainingJobs <= 0) {
-        log.info('Reached the maximum number of jobs to scrape. Stopping the crawler.');
-        return;
-    }
-    
-    // If we found links using a generic selector, enqueue them directly
-    if (jobLinks.length > 0 && $('a[href*="/job/fulltime/ad.html"]').length > 0) {
-        // Get all the href attributes
-        const urls: string[] = [];
-        jobLinks.each((_, element) => {
-            const href = $(element).attr('href');
-            if (href && href.includes('/job/fulltime/ad.html')) {
-                // Make absolute URL if it's relative
-                const url = href.startsWith('http') ? href : `https://www.finn.no${href}`;
-                urls.push(url);
-            }
-        });
-        
-        // Enqueue the URLs directly
-        for (let i = 0; i < Math.min(urls.length, remainingJobs); i++) {
-            await crawler.addRequests([{
-                url: urls[i],
-                label: 'DETAIL'
-            }]);
+
+    // Retry block pages with a new proxy session rather than reading them as an empty result page
+    const blockReason = detectBlockPage($, response?.statusCode);
+    if (blockReason) throw new BlockedPageError(blockReason, response?.statusCode);
+
+    const page = extractSearchPage($, request.url, { labelSets, now: runStartedAt });
+    log.info(`Found ${page.listingCount} job listings on this page${page.totalResults === undefined ? '' : ` of ${page.totalResults} results`}`);
+
+    if (page.listingCount === 0 && fallBackToBrowser(request, 'No job listings found', log)) return;
+
+    // Collect the listed ads. Detail pages are only visited once every search has been listed,
+    // so each ad knows all the searches it matched.
+    const { searchId } = request.userData as { searchId: string };
+    let newAdsCount = 0;
+    searchProgress[searchId] ??= { pagesVisited: 0, adsListed: 0 };
+    const progress = searchProgress[searchId];
+    progress.pagesVisited++;
+    progress.totalResults ??= page.totalResults;
+
+    for (const ad of page.ads) {
+        // Remember every listed ad, including those we won't visit, so they aren't reported as removed
+        listedFinnkodes.add(ad.finnkode);
+
+        const listedAd = listedAds.get(ad.finnkode);
+        if (listedAd) {
+            if (!listedAd.searches.includes(searchId)) listedAd.searches.push(searchId);
+        } else if (passesListingFilters(ad)) {
+            // The slot is reserved right away, so the quota holds however many pages are listed at the same time
+            listedAds.set(ad.finnkode, { ...ad, searches: [searchId] });
+            if (reserveSlot(quota, ad.finnkode)) newAdsCount++;
         }
-        
-        log.info(`Directly enqueued ${Math.min(urls.length, remainingJobs)} job detail pages`);
-    } else {
-        // Enqueue individual job detail pages using the enqueueLinks method
-        await enqueueLinks({
-            selector: jobLinks.length > 0 ? jobLinks.toString() : 'a[href*="/job/fulltime/ad.html"]',
-            label: 'DETAIL',
-            limit: remainingJobs,
-            transformRequestFunction: (req) => {
-                // Ensure we always have a label
-                req.label = 'DETAIL';
-                return req;
-            },
-        });
-    }
-    
-    // Find pagination links
-    let paginationLinks = $('a.pagination__page');
-    
-    if (paginationLinks.length === 0) {
-        paginationLinks = $('a[href*="page="]');
+        progress.adsListed++;
     }
-    
+
+    log.info(`Collected ${newAdsCount} new job ads from this page, ${usedSlots(quota)} of ${maxJobs} job slots taken`);
+
     // Enqueue next page if we need more jobs
-    if (remainingJobs > jobLinks.length && paginationLinks.length > 0) {
-        log.info(`Found ${paginationLinks.length} pagination links, enqueueing next pages`);
+    if (hasFreeSlot(quota) && page.nextPageUrls.length > 0) {
+        log.info(`Found ${page.nextPageUrls.length} pagination links, enqueueing next pages`);
         await enqueueLinks({
-            selector: paginationLinks.length > 0 ? paginationLinks.toString() : 'a[href*="page="]',
+            urls: page.nextPageUrls,
             strategy: EnqueueStrategy.All,
             label: 'LIST',
-            transformRequestFunction: (req) => {
-                // Ensure we always have a label
-                req.label = 'LIST';
-                return req;
-            },
+            userData: { searchId, renderer: (request.userData as { renderer?: Renderer }).renderer },
         });
+    } else if (page.nextPageUrls.length > 0) {
+        listingComplete = false;
     }
 });
 
 // Handle the job detail page
-router.addHandler('DETAIL', async ({ request, $, log }) => {
+router.addHandler('DETAIL', async ({ request, response, $, log }) => {
     log.info(`Processing job detail page ${request.url}`);
-    
+
     try {
-        // Extract the finnkode (job ID) from the URL
-        const finnkodeMatch = request.url.match(/finnkode=(\d+)/);
-        const finnkode = finnkodeMatch ? finnkodeMatch[1] : undefined;
-        
-        // Extract job title - both main title and subtitle
-        const mainTitle = $('h2.t2, h2.t3, h1.t2, h1.t3, .t2, .t1').first().text().trim();
-        const subTitle = $('h1').first().text().trim();
-        const title = mainTitle || subTitle;
-        
-        // Extract company name with improved extraction logic
-        let company = '';
-
-        // 1. Try the most reliable method first - from the subtitle under the main title
-        company = $('section.space-y-16 > p').first().text().trim();
-
-        // 2. If that fails, try from the metadata definition list ("Firma")
-        if (!company) {
-            const firmaElement = $('dt:contains("Firma")').next('dd');
-            if (firmaElement.length > 0) {
-                company = firmaElement.text().trim();
-            }
-        }
+        // Normalise whichever URL shape the ad was found under to its canonical URL and finnkode
+        const classifiedUrl = classifyFinnUrl(request.url) ?? classifyFinnUrl(request.loadedUrl ?? '');
+        const finnkode = classifiedUrl?.finnkode;
 
-        // 3. Try from the logo alt text if it exists
-        if (!company) {
-            const logoAlt = $('.company-logo img').attr('alt');
-            if (logoAlt && logoAlt.includes('logo')) {
-                company = logoAlt.replace(/\slogo$/i, '').trim();
-            }
+        // A resumed run may be handed an ad that was already output before the migration
+        if (finnkode && isSlotDone(quota, finnkode)) {
+            log.info(`Skipping job that was already scraped: ${finnkode}`);
+            return;
         }
 
-        // 4. Last resort - try from any structured data available
-        if (!company) {
-            // Look for any element that might contain the company name
-            company = $('span:contains("Firma:")').parent().text().replace('Firma:', '').trim() ||
-                    $('h2:contains("Om arbeidsgiveren")').next('div').find('p').first().text().trim() ||
-                    $('div.job-extended-profile-podlet-expandable').text().split('Les om arbeidsplassen')[0].trim();
-        }
-        
-        // Extract company logo URL
-        const companyLogoUrl = $('.company-logo img, img[alt*="logo"]').attr('src') || undefined;
-        
-        // Get the main job description but truncate it to a reasonable size
-        let description = '';
-        const descriptionSection = $('section:contains("En vanlig arbeidsdag"), section[aria-label="Jobbdetaljer"]');
-        
-        if (descriptionSection.length > 0) {
-            // Extract main sections and truncate
-            const workDuties = $('h3:contains("arbeidsoppgaver"), h3:contains("Dette vil du jobbe med"), h3:contains("Dette kommer du til"), h3:contains("Hva blir dine oppgaver")')
-                .parent()
-                .find('ul')
-                .first();
-                
-            const qualifications = $('h3:contains("Kvalifikasjoner"), h3:contains("Vi søker deg"), h3:contains("Hvem er du"), h3:contains("Du må ha")')
-                .parent()
-                .find('ul')
-                .first();
-                
-            // Create a concise description
-            let sections = [];
-            if (workDuties && workDuties.length > 0) {
-                sections.push("<h3>Arbeidsoppgaver</h3>" + workDuties.html());
-            }
-            
-            if (qualifications && qualifications.length > 0) {
-                sections.push("<h3>Kvalifikasjoner</h3>" + qualifications.html());
-            }
-            
-            // If we couldn't extract specific sections, use a truncated version of the whole description
-            if (sections.length === 0) {
-                description = $('section:contains("En vanlig arbeidsdag"), section[aria-label="Jobbdetaljer"], .import-decoration').html() || '';
-                // Truncate if too long
-                if (description.length > 2000) {
-                    description = description.substring(0, 2000) + '... (truncated)';
-                }
-            } else {
-                description = sections.join('');
-            }
-        } else {
-            // Fallback to general content but truncate
-            description = $('section .import-decoration').html() || '';
-            if (description.length > 2000) {
-                description = description.substring(0, 2000) + '... (truncated)';
-            }
+        // Retry block pages with a new proxy session; ads that were taken down are reported as expired
+        const statusCode = response?.statusCode;
+        const blockReason = detectBlockPage($, statusCode);
+        if (blockReason) throw new BlockedPageError(blockReason, statusCode);
+
+        if (finnkode && isExpiredAd($, statusCode)) {
+            log.info(`Job ${finnkode} is no longer available`);
+            const expiredAd: ExpiredAdRecord = {
+                url: classifiedUrl?.url ?? request.url,
+                finnkode,
+                changeType: 'expired',
+                statusCode,
+                expiredAt: new Date().toISOString(),
+            };
+            await Dataset.pushData(expiredAd);
+            await recordFailure(failedRequestsDatasetName, {
+                url: request.url,
+                label: request.label,
+                retryCount: request.retryCount,
+                statusCode,
+                errorClass: 'expired',
+                errorMessage: 'The ad is no longer available',
+            });
+            // It won't be listed again, so it isn't reported as removed by a later incremental run either
+            if (incremental) delete adIndex[finnkode];
+            const closed = trackHistory ? closeAd(adHistory, finnkode, 'expired', observedAt) : undefined;
+            if (closed) await recordChanges(changeLogDatasetName, [closed]);
+            completeSlot(quota, finnkode);
+            return;
         }
-        
-        // Extract contact information
-        const jobDetailsText = $('body').text();
-        
-        // Define standard TLDs to check against - used throughout the email processing
-        const standardTLDs = ['no', 'com', 'org', 'net', 'info', 'se', 'dk', 'io', 'co', 'uk', 'us', 'eu', 'de', 'fr', 'it', 'es', 'pl', 'ru', 'nl', 'be', 'me', 'biz', 'group'];
-
-        
-        // Improved regex to find email addresses in the content - with better boundaries
-        const emailRegex = /(^|[^a-zA-Z0-9])([\w.+-]+@[\w-]+\.[\w.-]+)([^a-zA-Z0-9]|$)/g;
-        
-        // For debugging - log the extraction process
-        const debugEmailExtraction = false; // Set to true to enable debugging
-        
-        // Extract all email matches from the content
-        const rawEmailMatches: string[] = [];
-        let match;
-        
-        while ((match = emailRegex.exec(jobDetailsText)) !== null) {
-            // The email is in capture group 2
-            if (match[2]) {
-                rawEmailMatches.push(match[2]);
-                if (debugEmailExtraction) {
-                    log.debug(`Found email with boundary match: ${match[2]}`);
-                }
-            }
+
+        // The section of the search that listed the ad, for ad URLs without one
+        const { section, searches, renderer } = request.userData as { section?: JobSection; searches?: string[]; renderer?: Renderer };
+        // A page that can't be extracted won't parse any better the next time, so it goes to the failed-request dataset
+        // right away. Anything failing after this, such as storing the record, is retried.
+        let parsed: ParsedJobAd;
+        try {
+            parsed = extractJobAd($, classifiedUrl?.url ?? request.url, {
+                labelSets,
+                skillTaxonomy,
+                maxDescriptionLength,
+                now: runStartedAt,
+                section: classifiedUrl?.section ?? section,
+                searches,
+                renderer,
+            });
+        } catch (error) {
+            throw new ParseError(`Error parsing job detail page: ${(error as Error).message}`);
         }
-        
-        // If we didn't find any emails with the strict pattern, try a more lenient one
-        if (rawEmailMatches.length === 0) {
-            // Try to find any email pattern followed by a standard TLD
-            for (const tld of standardTLDs) {
-                const tldEmailRegex = new RegExp(`[\\w.+-]+@[\\w-]+\\.${tld}`, 'gi');
-                let tldMatch;
-                
-                while ((tldMatch = tldEmailRegex.exec(jobDetailsText)) !== null) {
-                    if (debugEmailExtraction) {
-                        log.debug(`Found email with standard TLD '${tld}': ${tldMatch[0]}`);
-                    }
-                    rawEmailMatches.push(tldMatch[0]);
-                }
-            }
-            
-            // If we still don't have any matches, try the generic pattern as a last resort
-            if (rawEmailMatches.length === 0) {
-                // We'll use a hybrid approach when the strict pattern fails:
-                // 1. Find emails with the basic pattern
-                // 2. For each match, look for word boundaries or common words
-                
-                const simpleEmailRegex = /[\w.+-]+@[\w-]+\.[\w.-]+/g;
-                let simpleMatch;
-                
-                while ((simpleMatch = simpleEmailRegex.exec(jobDetailsText)) !== null) {
-                    const potentialEmail = simpleMatch[0];
-                    
-                    // Get some context - check characters before and after this match
-                    const startPos = simpleMatch.index;
-                    const endPos = startPos + potentialEmail.length;
-                    
-                    // Get 10 characters before and after for context
-                    const beforeContext = startPos > 10 ? jobDetailsText.substring(startPos - 10, startPos) : jobDetailsText.substring(0, startPos);
-                    const afterContext = endPos + 10 < jobDetailsText.length ? jobDetailsText.substring(endPos, endPos + 10) : jobDetailsText.substring(endPos);
-                    
-                    if (debugEmailExtraction) {
-                        log.debug(`Found potential email: ${potentialEmail}`);
-                        log.debug(`Context: ...${beforeContext}[${potentialEmail}]${afterContext}...`);
-                    }
-                    
-                    rawEmailMatches.push(potentialEmail);
-                }
+        const { job: jobData, companyDetails, branches } = parsed;
+        const { title, company, publicationDate } = jobData;
+
+        if ((!title || !company) && fallBackToBrowser(request, 'Title or company missing', log)) return;
+
+        // Link the ad to its employer's company record. Ads pointing at a profile that is already known reuse its id.
+        const companyId = (companyDetails.profileUrl && companyProfiles.get(companyDetails.profileUrl)) || jobData.companyId;
+        if (companyId) {
+            jobData.companyId = companyId;
+            companies.set(companyId, mergeCompany(companies.get(companyId) ?? { companyId, name: company }, companyDetails));
+            if (companyDetails.profileUrl && !companyProfiles.has(companyDetails.profileUrl)) {
+                companyProfiles.set(companyDetails.profileUrl, companyId);
             }
         }
-        
-        if (debugEmailExtraction) {
-            log.debug(`Found ${rawEmailMatches.length} raw email matches before cleaning`);
+
+        log.info('Extracted job data:', { title, company, finnkode });
+
+        // Finn can only filter on "published today", so longer windows are applied here
+        if (!isPublishedWithin(publicationDate, input?.publishedWithinDays)) {
+            log.info(`Skipping job published more than ${input?.publishedWithinDays} days ago: ${title}`);
+            if (finnkode) skipSlot(quota, finnkode);
+            return;
         }
-        
-        // Function to clean and validate email addresses
-        const cleanEmail = (dirtyEmail: string): string | undefined => {
-            if (debugEmailExtraction) {
-                log.debug(`Cleaning email: "${dirtyEmail}"`);
-            }
 
-            // STEP 1: Basic input cleaning
-            let cleanedInput = dirtyEmail
-                .replace(/\s+/g, '') // Remove whitespace
-                .replace(/&nbsp;/g, '') // Remove HTML entities
-                .replace(/[,;:()<>[\]]/g, '') // Remove common punctuation
-                .replace(/\[(at|et)\]|\(at\)|@\[at\]/gi, '@') // Replace [at], (at), etc. with @
-                .replace(/\[(dot|punkt)\]|\(dot\)|\(punktum\)/gi, '.'); // Replace [dot], (dot), etc.
+        // Log every tracked field that changed since the run that last scraped the ad
+        if (trackHistory && finnkode) {
+            await recordChanges(changeLogDatasetName, recordAdVersion(adHistory, finnkode, jobData, observedAt));
+        }
 
-            if (debugEmailExtraction) {
-                log.debug(`After basic cleaning: "${cleanedInput}"`);
+        // Group reposts and cross-posts of the same role, which get a finnkode of their own
+        if (detectDuplicates && finnkode) {
+            const { duplicateGroupId, duplicateOf } = findDuplicate(duplicateIndex, finnkode, jobData, duplicateThreshold);
+            jobData.duplicateGroupId = duplicateGroupId;
+            jobData.duplicateOf = duplicateOf;
+            if (duplicateOf && suppressDuplicates) {
+                log.info(`Skipping duplicate of ${duplicateOf}: ${title}`);
+                skipSlot(quota, finnkode);
+                return;
             }
+        }
 
-            // STEP 2: Direct matching for standard email with valid TLD
-            const extractedEmail = extractStandardEmail(cleanedInput);
-            
-            if (extractedEmail) {
-                if (debugEmailExtraction) {
-                    log.debug(`Extracted standard email: "${extractedEmail}"`);
-                }
-                return extractedEmail;
-            }
+        // The market report covers every ad the run found, including those left out below as unchanged
+        reportAds[finnkode ?? jobData.url] = toReportableJob(jobData);
 
-            // STEP 3: If no standard email found, attempt more aggressive extraction
-            const rescuedEmail = attemptEmailRescue(cleanedInput);
-            
-            if (debugEmailExtraction && rescuedEmail) {
-                log.debug(`Rescued email: "${rescuedEmail}"`);
-            }
-            
-            return rescuedEmail;
-            
-            // Helper function to extract a standard email with a valid TLD
-            function extractStandardEmail(input: string): string | undefined {
-                // Create a regex that matches emails ending with one of our standard TLDs
-                const tldPattern = standardTLDs.map(escapeDot).join('|');
-                const emailRegex = new RegExp(`(^|[^a-zA-Z0-9])([\\w.+-]+@[\\w-]+\\.(${tldPattern}))($|[^a-zA-Z0-9])`, 'i');
-                
-                const match = input.match(emailRegex);
-                if (match?.[2]) {
-                    return match[2];
-                }
-                
-                return undefined;
-            }
-            
-            // Helper function to attempt more aggressive email extraction for edge cases
-            function attemptEmailRescue(input: string): string | undefined {
-                // Look for patterns that resemble emails but might have junk attached
-                const potentialEmailMatch = input.match(/[\w.+-]+@[\w-]+\.[\w.-]+/);
-                if (!potentialEmailMatch) return undefined;
-                
-                const potentialEmail = potentialEmailMatch[0];
-                
-                // Find the @ symbol
-                const atPos = potentialEmail.indexOf('@');
-                if (atPos === -1) return undefined;
-                
-                // Look for valid TLDs in the potential email
-                for (const tld of standardTLDs) {
-                    const dotTldPos = potentialEmail.toLowerCase().indexOf(`.${tld}`, atPos);
-                    if (dotTldPos > atPos) {
-                        // Found a valid TLD - extract up to the end of the TLD
-                        const extractedPart = potentialEmail.substring(0, dotTldPos + tld.length + 1);
-                        
-                        // Validate the extracted part as a proper email
-                        if (/^[\w.+-]+@[\w-]+\.\w+$/.test(extractedPart)) {
-                            return extractedPart;
-                        }
-                    }
-                }
-                
-                // If TLD detection didn't work, try to find if any common words are attached
-                const commonWords = [
-                    'Telefon', 'telefon', 'Tlf', 'tlf', 'Mobil', 'mobil',
-                    'Name', 'name', 'Navn', 'navn', 'Kontakt', 'kontakt',
-                    'Email', 'email'
-                ];
-                
-                // Find the last dot after @
-                const lastDotPos = potentialEmail.lastIndexOf('.', potentialEmail.length);
-                if (lastDotPos > atPos) {
-                    // Check if any common word appears immediately after what might be a TLD
-                    for (const word of commonWords) {
-                        // Look for the word after a potential TLD (2-6 chars after the last dot)
-                        for (let tldLength = 2; tldLength <= 6; tldLength++) {
-                            const checkPos = lastDotPos + tldLength + 1;
-                            if (checkPos < potentialEmail.length) {
-                                if (potentialEmail.substring(checkPos).startsWith(word)) {
-                                    // Found a word attached to what seems like a TLD
-                                    const candidateEmail = potentialEmail.substring(0, checkPos);
-                                    if (/^[\w.+-]+@[\w-]+\.\w+$/.test(candidateEmail)) {
-                                        return candidateEmail;
-                                    }
-                                }
-                            }
-                        }
-                    }
-                    
-                    // If we still haven't found a match, use a default approach:
-                    // Assume the TLD is 2-3 characters long (most common)
-                    const tldEndPos = lastDotPos + 4; // .com, .org, .net, .no, etc. (3 chars + dot)
-                    if (tldEndPos <= potentialEmail.length) {
-                        const candidateEmail = potentialEmail.substring(0, tldEndPos);
-                        if (/^[\w.+-]+@[\w-]+\.\w+$/.test(candidateEmail)) {
-                            return candidateEmail;
-                        }
-                    }
-                }
-                
-                return undefined;
+        // In incremental mode, only emit ads that are new or whose content changed since the last run
+        const hash = incremental && finnkode ? hashJobData(jobData) : undefined;
+        if (hash && finnkode) {
+            const changeType = classifyAd(adIndex, finnkode, hash);
+            if (!changeType) {
+                log.info(`Skipping unchanged job: ${title}`);
+                recordAd(adIndex, finnkode, jobData.url, hash);
+                skipSlot(quota, finnkode);
+                return;
             }
-            
-            // Helper to escape dots in string for regex
-            function escapeDot(str: string): string {
-                return str.replace('.', '\\.');
-            }
-        };
-        
-        // Clean the found emails
-        const cleanEmails = rawEmailMatches
-            .map(cleanEmail)
-            .filter((email): email is string => email !== undefined);
-        
-        // Use the first clean email as the main email
-        const email = cleanEmails.length > 0 ? cleanEmails[0] : undefined;
-        
-        // Use regex to find phone numbers in the content
-        const phoneRegex = /\+?\d[\d\s\-]{7,}/g; // Note the 'g' flag to find all matches
-        const phoneMatches = jobDetailsText.match(phoneRegex) || [];
-        
-        // Clean and format phone numbers - collect them in a map for later association with contacts
-        const cleanedPhones: string[] = [];
-        let phoneNumber = undefined;
-        
-        if (phoneMatches.length > 0) {
-            // Format multiple phone numbers
-            phoneMatches.forEach(phone => {
-                // Clean up the phone number
-                const cleanPhone = phone.replace(/\s+/g, ' ').trim();
-                cleanedPhones.push(cleanPhone);
-            });
-            
-            // Remove duplicates
-            const uniquePhones = [...new Set(cleanedPhones)];
-            
-            // Limit to max 3 phone numbers and format nicely for the main phoneNumber field
-            phoneNumber = uniquePhones.slice(0, 3).join(' / ');
+            jobData.changeType = changeType;
         }
-        
-        // Find contact persons - create an array to store multiple contacts
-        const contactPersons: ContactPersonData[] = [];
-        
-        // Get all contact person elements
-        const contactElements = $('span.pr-8.font-bold:contains("Kontaktperson")').parent('li');
-        
-        if (contactElements.length > 0) {
-            // Multiple or single contact person in structured format
-            contactElements.each((_, element) => {
-                const fullText = $(element).text().replace('Kontaktperson:', '').trim();
-                const name = fullText;
-                
-                // Try to extract phone/email for this contact
-                let contactPhone = undefined;
-                let contactEmail = undefined;
-                let contactRole = undefined;
-                
-                // Look for adjacent li elements that might have a phone, email, or role
-                const parentUl = $(element).parent('ul');
-                const nextLi = $(element).next('li');
-                
-                // Check for mobile phone in various formats
-                if (nextLi.length > 0 && nextLi.text().includes('Mobil')) {
-                    contactPhone = nextLi.text().replace('Mobil:', '').trim();
-                } else {
-                    // Check for phone in the same list
-                    const phoneLi = parentUl.find('li:contains("Telefon"), li:contains("Mobil"), li:contains("Tlf")');
-                    if (phoneLi.length > 0) {
-                        contactPhone = phoneLi.text().replace(/Telefon:|Mobil:|Tlf:/gi, '').trim();
-                    } else {
-                        // Try to match any phone number near this contact's section
-                        const contactSectionText = parentUl.text();
-                        
-                        // Check if any of our previously found phone numbers appears near this contact's name
-                        for (const phone of cleanedPhones) {
-                            if (contactSectionText.includes(phone)) {
-                                contactPhone = phone;
-                                break;
-                            }
-                        }
-                        
-                        // If still no match, look for any phone number in this section
-                        if (!contactPhone) {
-                            const contactSectionPhoneMatch = contactSectionText.match(phoneRegex);
-                            if (contactSectionPhoneMatch) {
-                                contactPhone = contactSectionPhoneMatch[0].replace(/\s+/g, ' ').trim();
-                            }
+
+        // Save the job data to the dataset. The index only takes in the ad once it is stored.
+        await Dataset.pushData(jobData);
+        if (hash && finnkode) recordAd(adIndex, finnkode, jobData.url, hash);
+        // Coverage counts the stored ads once, not the skipped ones or the attempts that failed
+        recordCoverage(coverage, jobData, branches);
+        if (finnkode) completeSlot(quota, finnkode);
+
+        // Notify the targets whose filters the ad matches: right away, or at the end of the run in a batch
+        for (const [index, target] of notificationTargets.entries()) {
+            if (!matchesFilters(jobData, target.filters)) continue;
+
+            if (target.mode === 'per-ad') {
+                perAdDeliveries[index] = perAdDeliveries[index].then(async () => {
+                    for (const { payload, ads } of buildPayloads(target, [jobData])) {
+                        const delivery = await deliver(target, payload, ads, deliveryLog);
+                        if (delivery.status === 'failed') {
+                            log.warning(`Notification to ${target.type} failed after ${delivery.attempts} attempts: ${delivery.error}`);
                         }
                     }
-                }
-                
-                // Check for role/job title
-                const titleLi = parentUl.find('li:contains("Stillingstittel")');
-                if (titleLi.length > 0) {
-                    contactRole = titleLi.text().replace('Stillingstittel:', '').trim();
-                }
-                
-                // Check for nearby email elements
-                const emailLi = parentUl.find('li:contains("E-post")');
-                if (emailLi.length > 0) {
-                    const dirtyEmail = emailLi.text().replace('E-post:', '').trim();
-                    contactEmail = cleanEmail(dirtyEmail);
-                } else {
-                    // Try to find an email address near this contact's name in the job description
-                    const contactSection = $(element).parent().html() || '';
-                    const contactEmailMatches = contactSection.match(emailRegex);
-                    if (contactEmailMatches && contactEmailMatches.length > 0) {
-                        contactEmail = cleanEmail(contactEmailMatches[0]);
-                    }
-                }
-                
-                // Add this contact to our array
-                contactPersons.push({
-                    name,
-                    role: contactRole,
-                    phoneNumber: contactPhone,
-                    email: contactEmail
+                }).catch((error) => {
+                    log.warning(`Notification to ${target.type} failed: ${(error as Error).message}`);
                 });
-            });
-        } else if ($('li:contains("Kontaktperson")').length > 0) {
-            // Alternative format
-            const contactPersonName = $('li:contains("Kontaktperson")').text().replace('Kontaktperson', '').trim();
-            
-            // For this format, try to find phone number near this contact
-            const contactLi = $('li:contains("Kontaktperson")');
-            const parentList = contactLi.parent();
-            let contactPhone = undefined;
-            let contactEmail = undefined;
-            
-            // Check if there's a phone number in the same list
-            const phoneLi = parentList.find('li:contains("Telefon"), li:contains("Mobil"), li:contains("Tlf")');
-            if (phoneLi.length > 0) {
-                contactPhone = phoneLi.text().replace(/Telefon:|Mobil:|Tlf:/gi, '').trim();
-            } else if (phoneNumber) {
-                // Use the main phone number as fallback
-                contactPhone = phoneNumber;
-            }
-            
-            // Check for email in the same list
-            const emailLi = parentList.find('li:contains("E-post")');
-            if (emailLi.length > 0) {
-                const dirtyEmail = emailLi.text().replace('E-post:', '').trim();
-                contactEmail = cleanEmail(dirtyEmail);
-            } else if (email) {
-                // Use main email as fallback
-                contactEmail = email;
-            }
-            
-            contactPersons.push({ 
-                name: contactPersonName,
-                phoneNumber: contactPhone,
-                email: contactEmail
-            });
-        } else if ($('strong:contains("Rekrutterende leder")').length > 0) {
-            // Check for recruiting manager info
-            const leaderInfo = $('strong:contains("Rekrutterende leder")').parent().text();
-            const leaderName = leaderInfo.replace('Rekrutterende leder:', '').split('|')[0].trim();
-            
-            // Try to extract phone from the leader info
-            let contactPhone = undefined;
-            const leaderPhoneMatch = leaderInfo.match(phoneRegex);
-            if (leaderPhoneMatch) {
-                contactPhone = leaderPhoneMatch[0].replace(/\s+/g, ' ').trim();
-            }
-            
-            // Try to extract email from the leader info
-            let contactEmail = undefined;
-            const leaderEmailMatch = leaderInfo.match(emailRegex);
-            if (leaderEmailMatch) {
-                contactEmail = cleanEmail(leaderEmailMatch[0]);
-            }
-            
-            contactPersons.push({ 
-                name: leaderName,
-                phoneNumber: contactPhone,
-                email: contactEmail
-            });
-        }
-        
-        // Extract application URL - look for "Søk" or "Apply" buttons
-        const applicationUrl = $('a:contains("Søk"), a:contains("Apply"), a.button--attention').attr('href') || undefined;
-        
-        // Find location information
-        let location = undefined;
-        if ($('span.pr-8.font-bold:contains("Sted")').length > 0) {
-            location = $('span.pr-8.font-bold:contains("Sted")').next().text().trim();
-        } else if ($('li:contains("Sted")').length > 0) {
-            location = $('li:contains("Sted")').text().replace('Sted', '').trim();
-        } else {
-            // Try to extract postal code and city from any available address
-            const addressText = $('section:contains("Firmaets beliggenhet") p').text().trim();
-            if (addressText) {
-                location = addressText;
-            }
-        }
-        
-        // Find employment type
-        let employmentType = undefined;
-        const employmentTypeLabels = [
-            'Fast', 'Deltid', 'Heltid', 'Engasjement', 'Prosjekt', 'Sesong',
-            'Vikariat', 'Franchise', 'Selvstendig næringsdrivende', 'Timebasert'
-        ];
-        
-        for (const label of employmentTypeLabels) {
-            if (jobDetailsText.includes(label)) {
-                employmentType = label;
-                break;
+            } else {
+                notificationBatches[index].push(jobData);
             }
         }
-        
-        if (!employmentType && $('li:contains("Ansettelsesform")').length > 0) {
-            employmentType = $('li:contains("Ansettelsesform")').text().replace('Ansettelsesform', '').trim();
-        }
-        
-        // Find deadlines and publication dates
-        let expirationDate = undefined;
-        if ($('li:contains("Frist")').length > 0) {
-            expirationDate = $('li:contains("Frist")').find('.font-bold').text().trim();
-        } else if ($('span:contains("Frist")').length > 0) {
-            expirationDate = $('span:contains("Frist")').parent().text().replace('Frist', '').trim();
-        }
-        
-        // Get publication date from metadata
-        const publicationDateElement = $('time[datetime]');
-        const publicationDate = publicationDateElement.length > 0 
-            ? publicationDateElement.attr('datetime') 
-            : $('li:contains("Sist endret")').text().replace('Sist endret', '').trim();
-        
-        // Create the job data object
-        const jobData: JobData = {
-            url: request.url,
-            title,
-            description,
-            company,
-            contactPersons: contactPersons.length > 0 ? contactPersons : undefined,
-            email,
-            applicationUrl,
-            location,
-            employmentType,
-            publicationDate,
-            expirationDate,
-            finnkode,
-            companyLogoUrl
-        };
-        
-        log.info('Extracted job data:', { title, company, finnkode });
-        
-        // Save the job data to the dataset
-        await Dataset.pushData(jobData);
-        
-        // Increment the counter for scraped jobs
-        scrapedJobsCount++;
-        
+
         log.info(`Successfully scraped job: ${title}`);
     } catch (error) {
         log.error(`Error processing job detail page ${request.url}`, { error: (error as Error).message });
-        // Continue with the next job even if there's an error
+        throw error;
+    }
+});
+
+// Handle the employer's company profile page, completing the company record collected from its ads
+router.addHandler('COMPANY', async ({ request, response, $, log }) => {
+    log.info(`Processing company profile ${request.url}`);
+
+    // Retry block pages with a new proxy session rather than storing them as company details
+    const blockReason = detectBlockPage($, response?.statusCode);
+    if (blockReason) throw new BlockedPageError(blockReason, response?.statusCode);
+
+    const { companyId } = request.userData as { companyId: string };
+    const company = companies.get(companyId);
+    if (!company) return;
+
+    const name = $('h1').first().text().trim();
+    mergeCompany(company, { ...extractCompanyDetails($, labelSets.nb), name: name || undefined });
+
+    // Key the company by the org number the profile shows, and point its profiles at the new key
+    const rekeyed = rekeyCompany(companies, company);
+    for (const [url, id] of companyProfiles) {
+        if (id === companyId) companyProfiles.set(url, rekeyed.companyId);
     }
 });
 
 // Add a default handler for any URLs that don't match other patterns
-router.addDefaultHandler(async ({ request, log }) => {
+router.addDefaultHandler(async (context) => {
+    const { request, log } = context;
     log.info(`Received unexpected URL: ${request.url}`);
-    
-    // If it's from finn.no, try to determine what type it is
-    if (request.url.includes('finn.no')) {
-        if (request.url.includes('/search.html')) {
-            log.info(`This appears to be a search page, but wasn't properly labeled: ${request.url}`);
-        } else if (request.url.includes('/ad.html')) {
-            log.info(`This appears to be a detail page, but wasn't properly labeled: ${request.url}`);
-        }
+
+    // If it's a Finn job page, route it to the handler for its type
+    const classifiedUrl = classifyFinnUrl(request.url);
+    if (classifiedUrl?.kind === 'search') {
+        log.info(`Routing unlabeled search page to LIST: ${request.url}`);
+        request.label = 'LIST';
+        request.userData.searchId ??= request.url;
+        await router(context);
+    } else if (classifiedUrl?.kind === 'ad') {
+        log.info(`Routing unlabeled detail page to DETAIL: ${request.url}`);
+        request.label = 'DETAIL';
+        await router(context);
     } else {
-        log.warning(`Skipping non-Finn.no URL: ${request.url}`);
+        log.warning(`Skipping URL that isn't a Finn.no job page: ${request.url}`);
     }
 });
 
@@ -729,18 +556,207 @@ const crawler = new CheerioCrawler({
     maxConcurrency: 10,
     requestHandler: router,
     // Add error handling to be robust against website changes
-    failedRequestHandler: async ({ request, log }) => {
+    failedRequestHandler: async ({ request, log }, error) => {
         log.warning(`Request ${request.url} failed`);
+        await handleFailedRequest(request, error);
     },
 });
 
-// Start with the search URL provided in the input
-await crawler.run([
-    new Request({
-        url: searchUrl,
-        label: 'LIST'
-    })
-]);
+// The browser crawler keeps its own queue, apart from the pages the plain crawler handled. Named queues outlive
+// the run, so a fresh run empties it first and a resumed one picks up where it left off.
+const openBrowserQueue = async () => {
+    if (!savedState) await (await RequestQueue.open('browser-fallbacks')).drop();
+    return RequestQueue.open('browser-fallbacks');
+};
+
+// Browser crawler for hybrid mode, running the same handlers on the rendered pages
+const browserCrawler = hybridMode ? new PlaywrightCrawler({
+    proxyConfiguration,
+    requestQueue: await openBrowserQueue(),
+    maxConcurrency: 2,
+    requestHandler: createBrowserRouter(router),
+    failedRequestHandler: async ({ request, log }, error) => {
+        log.warning(`Rendering ${request.url} in a browser failed`);
+        await handleFailedRequest(request, error);
+    },
+}) : undefined;
+
+// Render the pages queued for the browser since the last call. Rendered result pages can queue more pages.
+const runBrowserFallbacks = async () => {
+    while (browserCrawler && browserFallbacks.length > 0) {
+        runLog.info(`Rendering ${browserFallbacks.length} pages in a browser`);
+        await browserCrawler.run(browserFallbacks.splice(0));
+    }
+};
+
+const detailRequests = (ads: ListedAd[]) => ads.map((ad) => new Request({
+    url: ad.url,
+    label: 'DETAIL',
+    userData: { searches: ad.searches, section: ad.section },
+}));
+
+// Phase 1: walk the result pages of every search and collect the listed ads.
+// A resumed run goes on with the result pages still in the request queue.
+if (phase === 'list') {
+    await crawler.run(searchSeeds.map((seed) => new Request({
+        url: seed.url,
+        label: 'LIST',
+        userData: { searchId: seed.id },
+    })));
+    await runBrowserFallbacks();
+    for (const [searchId, { totalResults, adsListed }] of Object.entries(searchProgress)) {
+        runLog.info(`Search ${searchId}: ${totalResults ?? 'unknown number of'} results, ${adsListed} ads listed`);
+    }
+    phase = 'detail';
+}
+
+// Listing mode: store what each card showed instead of visiting the ads, and skip the later phases
+if (phase === 'detail' && mode === 'listing') {
+    const ads = [...listedAds.values()].filter((ad) => isReserved(quota, ad.finnkode));
+    const records = ads.map((ad) => toListingRecord(ad, ad.searches));
+    await Dataset.pushData(records);
+    for (const [index, ad] of ads.entries()) {
+        reportAds[ad.finnkode] = toReportableJob(records[index]);
+        completeSlot(quota, ad.finnkode);
+    }
+    runLog.info(`Listing mode: stored ${ads.length} ads from the search result cards`);
+    phase = 'finish';
+}
+
+// Phase 2: scrape each collected ad once, no matter how many searches listed it
+if (phase === 'detail') {
+    await crawler.run(detailRequests([...listedAds.values()].filter((ad) => isReserved(quota, ad.finnkode))));
+    await runBrowserFallbacks();
+
+    // The slots of ads that failed or were skipped go to listed ads that didn't get one, until the quota or the listed ads run out
+    for (;;) {
+        const replacements = [...listedAds.values()].filter((ad) => isWaiting(quota, ad.finnkode) && reserveSlot(quota, ad.finnkode));
+        if (replacements.length === 0) break;
+        runLog.info(`Scraping ${replacements.length} more listed ads in place of ads that failed or were skipped`);
+        await crawler.run(detailRequests(replacements));
+        await runBrowserFallbacks();
+    }
+    phase = 'company';
+}
+
+// Phase 3: visit each employer's company profile once, however many of its ads were scraped
+if (phase === 'company') {
+    if (scrapeCompanyProfiles && companyProfiles.size > 0) {
+        await crawler.run([...companyProfiles].map(([url, companyId]) => new Request({
+            url,
+            label: 'COMPANY',
+            userData: { companyId },
+        })));
+    }
+    phase = 'finish';
+}
+
+// Coverage stage: report how often each field was filled, so changes to Finn's markup show up as a drop in coverage
+const coverageReport = buildCoverageReport(coverage, coverageThresholds);
+await saveCoverageReport(coverageReport);
+for (const { field, percent, threshold } of coverageReport.violations) {
+    runLog.warning(`Coverage of ${field} is ${percent}%, below the threshold of ${threshold}%`);
+}
+
+// Store every employer once, in a dataset of its own. Stored companies and sent batches are cleared,
+// so a run resumed after this point doesn't store or send them again.
+if (companies.size > 0) {
+    const companyDataset = await Actor.openDataset(companyDatasetName);
+    await companyDataset.pushData([...companies.values()]);
+    companies.clear();
+}
+
+await Promise.all(perAdDeliveries);
+
+// Send the batched notifications, one per target (split into several messages for large chat batches)
+for (const [index, target] of notificationTargets.entries()) {
+    for (const { payload, ads } of buildPayloads(target, notificationBatches[index])) {
+        const delivery = await deliver(target, payload, ads, deliveryLog);
+        runLog.info(`Notification with ${ads.length} ads to ${target.type}: ${delivery.status}${delivery.error ? ` (${delivery.error})` : ''}`);
+    }
+    notificationBatches[index] = [];
+}
+
+if (detectDuplicates) {
+    await saveDuplicateHistory(duplicateStoreName, duplicateIndex.history);
+}
+
+if (useNotifications) {
+    await saveDeliveryLog(notificationStoreName, deliveryLog);
+}
+
+if (incremental) {
+    // Ads that dropped out of the search results are emitted as "removed" at the end of the run
+    if (listingComplete) {
+        const removedAds = collectRemovedAds(adIndex, listedFinnkodes);
+        if (removedAds.length > 0) {
+            await Dataset.pushData(removedAds);
+        }
+        runLog.info(`Incremental mode: ${removedAds.length} ads removed since the last run`);
+    } else {
+        runLog.info('Incremental mode: search results were not fully visited, skipping removed-ad detection');
+    }
+
+    await saveAdIndex(indexStoreName, adIndex);
+}
+
+// History stage: ads that dropped out of the search results leave the market, with the days they were on it
+if (trackHistory) {
+    markListed(adHistory, listedFinnkodes, observedAt);
+    if (listingComplete) {
+        const closedAds = closeRemovedAds(adHistory, listedFinnkodes, observedAt);
+        await recordChanges(changeLogDatasetName, closedAds);
+        runLog.info(`History: ${closedAds.length} ads left the market since the last run`);
+    } else {
+        runLog.info('History: search results were not fully visited, skipping removed-ad detection');
+    }
+    await saveAdHistory(historyStoreName, adHistory);
+}
+
+// The records the run stores in the default dataset
+type DatasetRecord = JobData | ListingRecord | ExpiredAdRecord | RemovedAdRecord;
+
+// Listing records have no changeType, job records only the ones incremental mode sets
+const isScrapedJob = (record: DatasetRecord): record is JobData | ListingRecord => {
+    return !('changeType' in record) || (record.changeType !== 'removed' && record.changeType !== 'expired');
+};
+
+// The ads scraped in this run, without the removed and expired records
+const loadScrapedJobs = async (): Promise<(JobData | ListingRecord)[]> => {
+    const { items } = await Dataset.getData<DatasetRecord>();
+    return items.filter(isScrapedJob);
+};
+
+// Export stage: write the ads scraped in this run to the KeyValueStore in the formats chosen in the input
+if (exportFormats.length > 0) {
+    const jobs = await loadScrapedJobs();
+    const keys = await exportJobs(jobs, exportFormats, exportColumns);
+    runLog.info(`Exported ${jobs.length} jobs to ${keys.join(', ')}`);
+}
+
+// Leads stage: merge the contact persons of this run's ads into the leads of earlier runs, one record per person
+if (collectLeads) {
+    const jobs = await loadScrapedJobs();
+    const { leads, seen } = mergeLeads(await loadLeads(leadsStoreName), jobs, runStartedAt.toISOString());
+    if (seen.length > 0) {
+        const leadsDataset = await Actor.openDataset(leadsDatasetName);
+        await leadsDataset.pushData(seen);
+    }
+    await saveLeads(leadsStoreName, leads);
+    runLog.info(`Leads: ${seen.length} people on this run's ads, ${leads.length} known in total`);
+}
+
+// Report stage: a market summary of every ad the run found, as REPORT.json and a REPORT.html with charts.
+// Unlike the dataset in incremental mode, it includes the ads that didn't change since the last run.
+const searchTotals = Object.entries(searchProgress).map(([searchId, { totalResults, adsListed }]) => ({ searchId, totalResults, adsListed }));
+const marketReport = buildMarketReport(Object.values(reportAds), knownFinnkodes, searchTotals);
+await saveMarketReport(marketReport);
+runLog.info(`Report: ${marketReport.totalAds} ads from ${marketReport.byCompany.length} companies`);
+
+// A field below its coverage threshold fails the run once everything else is stored, if the input asks for it
+if (failOnLowCoverage && coverageReport.violations.length > 0) {
+    await Actor.fail(`Field coverage below the threshold: ${coverageReport.violations.map(({ field, percent }) => `${field} ${percent}%`).join(', ')}`);
+}
 
 // Gracefully exit the Actor process. It's recommended to quit all Actors with an exit()
 await Actor.exit();
@@ -0,0 +1,340 @@
+import { createHash } from 'node:crypto';
+import { Actor } from 'apify';
+import { ChangeType } from './delta.js';
+import { LocationData } from './location.js';
+import { SalaryData } from './salary.js';
+import { SkillTag } from './skills.js';
+
+// Where a notification goes and what it looks like there
+export type NotificationType = 'webhook' | 'slack' | 'teams';
+
+// Send one notification at the end of the run with every matching ad, or one per ad as soon as it is scraped
+export type NotificationMode = 'batch' | 'per-ad';
+
+// Which ads a notification target wants to hear about. Every filter that is set has to match.
+export interface NotificationFilters {
+    keywords?: string[]; // At least one in the title, company or description
+    excludeKeywords?: string[];
+    companies?: string[];
+    locations?: string[]; // Matched against the location text, city, municipality and county
+    skills?: string[];
+    employmentTypes?: string[];
+    minSalary?: number; // Yearly salary; ads without a yearly salary don't match
+    changeTypes?: ChangeType[]; // Only useful in incremental mode
+}
+
+// One notification target from the actor input
+export interface NotificationTarget {
+    type: NotificationType;
+    url: string;
+    mode?: NotificationMode;
+    headers?: Record<string, string>;
+    payloadTemplate?: string; // JSON with {{placeholders}}, webhooks only
+    filters?: NotificationFilters;
+    maxRetries?: number;
+}
+
+// The fields of a job record that notifications read
+export interface NotifiableAd {
+    url: string;
+    title: string;
+    company: string;
+    description?: string;
+    location?: string;
+    locations?: LocationData[];
+    employmentType?: string;
+    salary?: SalaryData;
+    expirationDate?: string;
+    expirationDateRaw?: string;
+    daysUntilDeadline?: number;
+    skills?: SkillTag[];
+    changeType?: ChangeType;
+}
+
+// The outcome of sending one payload, stored in the delivery log. Webhook URLs often carry the secret that
+// authorizes the post, so the log only keeps the host and a hash to find the target again.
+export interface DeliveryRecord {
+    id: string;
+    type: NotificationType;
+    url: string; // Host of the target only
+    targetHash: string; // SHA-256 of the target URL
+    status: 'delivered' | 'failed';
+    attempts: number;
+    statusCode?: number;
+    error?: string;
+    adUrls: string[];
+    payload: unknown; // Kept so failed deliveries can be replayed
+    firstAttemptAt: string;
+    lastAttemptAt: string;
+}
+
+// Key under which the delivery log is stored in the named KeyValueStore
+const DELIVERY_LOG_KEY = 'DELIVERY_LOG';
+
+// Delivered records are only kept for reference, so the log doesn't grow forever; failed ones are kept until replayed
+const MAX_DELIVERED_RECORDS = 500;
+
+// Chat messages get long quickly, so batches are split into messages of this many ads
+const CHAT_BATCH_SIZE = 20;
+
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+// A target that doesn't answer within this time counts as a network error
+const REQUEST_TIMEOUT_MS = 10000;
+// Longer Retry-After values are cut to this, so a rate-limited target can't stall the run
+const MAX_RETRY_AFTER_MS = 60000;
+
+const NOTIFICATION_TYPES: NotificationType[] = ['webhook', 'slack', 'teams'];
+
+const sleep = (ms: number) => new Promise((resolve) => { setTimeout(resolve, ms); });
+
+const includesAny = (text: string, terms: string[]): boolean => {
+    const lowerText = text.toLowerCase();
+    return terms.some((term) => lowerText.includes(term.toLowerCase()));
+};
+
+export const matchesFilters = (ad: NotifiableAd, filters: NotificationFilters = {}): boolean => {
+    const searchable = [ad.title, ad.company, ad.description ?? ''].join('\n');
+    if (filters.keywords?.length && !includesAny(searchable, filters.keywords)) return false;
+    if (filters.excludeKeywords?.length && includesAny(searchable, filters.excludeKeywords)) return false;
+    if (filters.companies?.length && !includesAny(ad.company, filters.companies)) return false;
+
+    if (filters.locations?.length) {
+        const places = [ad.location ?? '', ...(ad.locations ?? []).flatMap((location) => [location.city, location.municipality, location.county])];
+        if (!includesAny(places.filter(Boolean).join('\n'), filters.locations)) return false;
+    }
+
+    if (filters.skills?.length) {
+        const skills = new Set((ad.skills ?? []).map((skill) => skill.name.toLowerCase()));
+        if (!filters.skills.some((skill) => skills.has(skill.toLowerCase()))) return false;
+    }
+
+    if (filters.employmentTypes?.length && !includesAny(ad.employmentType ?? '', filters.employmentTypes)) return false;
+
+    if (filters.minSalary) {
+        const yearly = ad.salary?.period === 'year' ? ad.salary.max ?? ad.salary.min : undefined;
+        if (yearly === undefined || yearly < filters.minSalary) return false;
+    }
+
+    if (filters.changeTypes?.length && (!ad.changeType || !filters.changeTypes.includes(ad.changeType))) return false;
+
+    return true;
+};
+
+const deadlineText = (ad: NotifiableAd): string | undefined => {
+    if (ad.expirationDate) {
+        return ad.daysUntilDeadline !== undefined ? `${ad.expirationDate} (${ad.daysUntilDeadline} days left)` : ad.expirationDate;
+    }
+    return ad.expirationDateRaw;
+};
+
+// One line per ad: title, company, deadline and link
+export const renderSummary = (ad: NotifiableAd): string => {
+    const deadline = deadlineText(ad);
+    return `${ad.title} - ${ad.company}${deadline ? ` - Frist: ${deadline}` : ''} - ${ad.url}`;
+};
+
+const summaryFields = (ad: NotifiableAd) => ({
+    title: ad.title,
+    company: ad.company,
+    deadline: deadlineText(ad) ?? '',
+    location: ad.location ?? '',
+    url: ad.url,
+    summary: renderSummary(ad),
+});
+
+// Fill a JSON template. A string that is just "{{ads}}" becomes the array of ads; other placeholders are
+// replaced inside strings, so the result stays valid JSON whatever the ads contain.
+const fillTemplate = (template: unknown, values: Record<string, unknown>): unknown => {
+    if (typeof template === 'string') {
+        const whole = template.match(/^\{\{(\w+)\}\}$/);
+        if (whole && whole[1] in values) return values[whole[1]];
+        return template.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) => (name in values ? String(values[name]) : placeholder));
+    }
+    if (Array.isArray(template)) return template.map((item) => fillTemplate(item, values));
+    if (template && typeof template === 'object') {
+        return Object.fromEntries(Object.entries(template).map(([key, value]) => [key, fillTemplate(value, values)]));
+    }
+    return template;
+};
+
+const isHttpUrl = (value: unknown): boolean => {
+    if (typeof value !== 'string') return false;
+    try {
+        return ['http:', 'https:'].includes(new URL(value).protocol);
+    } catch {
+        return false;
+    }
+};
+
+// Problems with the targets of the input that would otherwise only show once a notification is sent
+export const validateTargets = (targets: NotificationTarget[]): string[] => targets.flatMap((target, index) => {
+    const errors: string[] = [];
+    if (!NOTIFICATION_TYPES.includes(target.type)) {
+        errors.push(`notifications[${index}].type must be one of ${NOTIFICATION_TYPES.join(', ')}, got ${JSON.stringify(target.type)}`);
+    }
+    if (!isHttpUrl(target.url)) errors.push(`notifications[${index}].url must be an http or https URL`);
+    if (target.payloadTemplate) {
+        try {
+            JSON.parse(target.payloadTemplate);
+        } catch (error) {
+            errors.push(`notifications[${index}].payloadTemplate is not valid JSON: ${(error as Error).message}`);
+        }
+    }
+    return errors;
+});
+
+const webhookPayload = (target: NotificationTarget, ads: NotifiableAd[]): unknown => {
+    const values: Record<string, unknown> = {
+        count: ads.length,
+        summary: ads.map(renderSummary).join('\n'),
+        ads: ads.map(summaryFields),
+        // Per-ad notifications can address the fields of their single ad directly
+        ...(ads.length === 1 ? summaryFields(ads[0]) : {}),
+    };
+    if (!target.payloadTemplate) return { count: values.count, summary: values.summary, ads: values.ads };
+    return fillTemplate(JSON.parse(target.payloadTemplate), values);
+};
+
+// "3 new job ads on Finn.no", "1 updated job ad on Finn.no" or "5 job ads on Finn.no (3 new, 2 updated)"
+const headline = (ads: NotifiableAd[]): string => {
+    const newAds = ads.filter((ad) => ad.changeType === 'new').length;
+    const updatedAds = ads.filter((ad) => ad.changeType === 'updated').length;
+    const noun = `job ad${ads.length === 1 ? '' : 's'}`;
+    if (newAds === ads.length) return `${ads.length} new ${noun} on Finn.no`;
+    if (updatedAds === ads.length) return `${ads.length} updated ${noun} on Finn.no`;
+    const breakdown = newAds && updatedAds ? ` (${newAds} new, ${updatedAds} updated)` : '';
+    return `${ads.length} ${noun} on Finn.no${breakdown}`;
+};
+
+// Slack reads <, > and & as markup, so ad text has to escape them
+const escapeSlack = (text: string): string => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const slackPayload = (ads: NotifiableAd[]): unknown => {
+    const lines = ads.map((ad) => {
+        const deadline = deadlineText(ad);
+        return `*<${ad.url}|${escapeSlack(ad.title)}>* - ${escapeSlack(ad.company)}${deadline ? `\nFrist: ${escapeSlack(deadline)}` : ''}`;
+    });
+    return { text: `${headline(ads)}\n\n${lines.join('\n\n')}` };
+};
+
+// Teams incoming webhooks take the MessageCard format, with Markdown in the text
+const teamsPayload = (ads: NotifiableAd[]): unknown => {
+    const lines = ads.map((ad) => {
+        const deadline = deadlineText(ad);
+        return `**[${ad.title}](${ad.url})** - ${ad.company}${deadline ? `  \nFrist: ${deadline}` : ''}`;
+    });
+    return {
+        '@type': 'MessageCard',
+        '@context': 'https://schema.org/extensions',
+        summary: headline(ads),
+        title: headline(ads),
+        text: lines.join('\n\n'),
+    };
+};
+
+// The payloads to send for a set of ads - several for large batches to chat targets
+export const buildPayloads = (target: NotificationTarget, ads: NotifiableAd[]): { payload: unknown; ads: NotifiableAd[] }[] => {
+    if (ads.length === 0) return [];
+    if (target.type === 'webhook') return [{ payload: webhookPayload(target, ads), ads }];
+
+    const chunks: { payload: unknown; ads: NotifiableAd[] }[] = [];
+    for (let i = 0; i < ads.length; i += CHAT_BATCH_SIZE) {
+        const chunk = ads.slice(i, i + CHAT_BATCH_SIZE);
+        chunks.push({ payload: target.type === 'slack' ? slackPayload(chunk) : teamsPayload(chunk), ads: chunk });
+    }
+    return chunks;
+};
+
+// POST a payload, retrying network errors, rate limits and server errors with exponential backoff
+const post = async (
+    url: string,
+    payload: unknown,
+    headers: Record<string, string>,
+    maxRetries: number,
+): Promise<Pick<DeliveryRecord, 'status' | 'attempts' | 'statusCode' | 'error'>> => {
+    let attempts = 0;
+    for (;;) {
+        attempts++;
+        let statusCode: number | undefined;
+        let error: string;
+        let retryAfterMs: number | undefined;
+
+        try {
+            const response = await fetch(url, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', ...headers },
+                body: JSON.stringify(payload),
+                signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+            });
+            statusCode = response.status;
+            if (response.ok) return { status: 'delivered', attempts, statusCode };
+
+            error = `HTTP ${response.status}: ${(await response.text()).slice(0, 200)}`;
+            // Client errors other than rate limiting won't get better by retrying
+            if (response.status < 500 && response.status !== 429) return { status: 'failed', attempts, statusCode, error };
+
+            const retryAfter = Number(response.headers.get('retry-after'));
+            if (retryAfter > 0) retryAfterMs = Math.min(retryAfter * 1000, MAX_RETRY_AFTER_MS);
+        } catch (fetchError) {
+            error = (fetchError as Error).message;
+        }
+
+        if (attempts > maxRetries) return { status: 'failed', attempts, statusCode, error };
+        await sleep(retryAfterMs ?? BASE_BACKOFF_MS * 2 ** (attempts - 1));
+    }
+};
+
+const hashTargetUrl = (url: string): string => createHash('sha256').update(url).digest('hex');
+
+// Send a payload and record the outcome in the delivery log
+export const deliver = async (
+    target: NotificationTarget,
+    payload: unknown,
+    ads: NotifiableAd[],
+    log: DeliveryRecord[],
+): Promise<DeliveryRecord> => {
+    const now = new Date().toISOString();
+    const result = await post(target.url, payload, target.headers ?? {}, target.maxRetries ?? DEFAULT_MAX_RETRIES);
+    const record: DeliveryRecord = {
+        id: `${Date.now()}-${log.length}`,
+        type: target.type,
+        url: new URL(target.url).host,
+        targetHash: hashTargetUrl(target.url),
+        ...result,
+        adUrls: ads.map((ad) => ad.url),
+        payload,
+        firstAttemptAt: now,
+        lastAttemptAt: new Date().toISOString(),
+    };
+    log.push(record);
+    return record;
+};
+
+// Send the failed deliveries of earlier runs again. The URL and headers come from the current input's target with
+// the same URL, as they aren't stored in the log; deliveries to targets no longer in the input stay failed.
+export const replayFailedDeliveries = async (log: DeliveryRecord[], targets: NotificationTarget[]): Promise<number> => {
+    let replayed = 0;
+    for (const record of log.filter((entry) => entry.status === 'failed')) {
+        const target = targets.find((candidate) => hashTargetUrl(candidate.url) === record.targetHash);
+        if (!target) continue;
+        const result = await post(target.url, record.payload, target.headers ?? {}, target.maxRetries ?? DEFAULT_MAX_RETRIES);
+        Object.assign(record, result, { attempts: record.attempts + result.attempts, lastAttemptAt: new Date().toISOString() });
+        if (result.status === 'delivered') replayed++;
+    }
+    return replayed;
+};
+
+// Load the delivery log from the named KeyValueStore
+export const loadDeliveryLog = async (storeName: string): Promise<DeliveryRecord[]> => {
+    const store = await Actor.openKeyValueStore(storeName);
+    return (await store.getValue<DeliveryRecord[]>(DELIVERY_LOG_KEY)) || [];
+};
+
+// Persist the delivery log, keeping every failed delivery and the most recent delivered ones
+export const saveDeliveryLog = async (storeName: string, log: DeliveryRecord[]): Promise<void> => {
+    const delivered = log.filter((record) => record.status === 'delivered').slice(-MAX_DELIVERED_RECORDS);
+    const kept = log.filter((record) => record.status === 'failed' || delivered.includes(record));
+    const store = await Actor.openKeyValueStore(storeName);
+    await store.setValue(DELIVERY_LOG_KEY, kept);
+};
@@ -0,0 +1,559 @@
+import { createRequire } from 'node:module';
+import { CheerioRoot } from 'crawlee';
+import { ChangeType } from './delta.js';
+import { FieldSource, extractStructuredJobData, resolveFieldSources } from './structuredData.js';
+import { JobSection, classifyFinnUrl } from './urls.js';
+import { SalaryData, parseSalary } from './salary.js';
+import { DeadlineType, classifyDeadline, daysUntil, parseNorwegianDate, parseRelativeTime } from './dates.js';
+import { LocationData, parseLocations } from './location.js';
+import { PhoneType, findContactPhone, findPhoneNumbers } from './phone.js';
+import { EmailData, findContactEmail, findEmailsIn, resolveEmails } from './email.js';
+import { CompanyDetails, companyIdFor, extractCompanyDetails } from './company.js';
+import { CheerioNodes } from './dom.js';
+import { CompiledSkill, SkillTag, buildTaxonomy, tagSkills } from './skills.js';
+import { DescriptionSection, convertDescription, truncate } from './description.js';
+import { LabelDictionary, LabelKey, Language, LabelSets, buildLabelSets, detectLanguage, findByLabel, includesAny, removeLabel } from './labels.js';
+import { Renderer } from './rendering.js';
+
+// Define a contact person data structure
+export interface ContactPersonData {
+    name: string;
+    role?: string;
+    phoneNumber?: string; // E.164, e.g. +4791234567
+    phoneType?: PhoneType;
+    email?: string;
+}
+
+// Define the job data structure
+export interface JobData {
+    url: string;
+    title: string;
+    description: string; // Markdown
+    descriptionText?: string;
+    descriptionSections?: DescriptionSection[];
+    skills?: SkillTag[]; // Skills and technologies from the taxonomy that the ad mentions
+    company: string;
+    companyId?: string; // Key of the employer's record in the company dataset
+    contactPersons?: ContactPersonData[]; // Array of contact persons
+    email?: string;
+    emails?: EmailData[]; // Every address on the ad, with the contact or mailbox it belongs to
+    applicationUrl?: string;
+    location?: string; // The location text as shown on the ad
+    locations?: LocationData[]; // Parsed work locations, one per place for ads with several
+    employmentType?: string;
+    salary?: SalaryData;
+    publicationDate?: string; // ISO 8601
+    publicationDateRaw?: string;
+    expirationDate?: string; // ISO 8601, only set when the deadline is an actual date
+    expirationDateRaw?: string;
+    deadlineType?: DeadlineType;
+    daysUntilDeadline?: number; // Counted from the day of the run
+    lastModified?: string; // ISO 8601
+    lastModifiedRaw?: string;
+    finnkode?: string;
+    section?: JobSection; // fulltime, parttime or management
+    companyLogoUrl?: string;
+    changeType?: ChangeType; // Only set in incremental mode
+    fieldSources?: Partial<Record<keyof JobData, FieldSource>>; // Where each filled field was extracted from
+    searches?: string[]; // Every search whose results listed this ad
+    duplicateGroupId?: string; // finnkode of the first ad of the group of reposted or cross-posted copies
+    duplicateOf?: string; // Only set on the copies
+    renderer: Renderer;
+    language?: Language; // Detected from the description, or the page's lang attribute
+}
+
+// What an ad's card in the search results shows, so the ad can be recorded without visiting it
+export interface ListingCard {
+    title?: string;
+    company?: string;
+    location?: string;
+    employmentType?: string;
+    salary?: SalaryData;
+    publicationDate?: string; // ISO 8601
+    publicationDateRaw?: string; // A date, or a relative time such as "for 3 timer siden"
+    companyLogoUrl?: string;
+}
+
+// An ad linked from a search results page
+export interface ListedLink {
+    url: string; // Canonical ad URL
+    finnkode: string;
+    section?: JobSection; // From the ad link, or else from the search URL
+    card: ListingCard;
+}
+
+export interface SearchPage {
+    listingCount: number; // Job links found on the page, including those that aren't ads
+    totalResults?: number; // The number of results the page says the whole search has
+    ads: ListedLink[]; // Once per finnkode
+    nextPageUrls: string[]; // Other result pages of the same search
+}
+
+// A record of listing mode: the JobData fields a search result card fills
+export type ListingRecord = Pick<JobData, 'url' | 'finnkode' | 'title' | 'company' | 'section' | 'location' | 'locations'
+    | 'employmentType' | 'salary' | 'publicationDate' | 'publicationDateRaw' | 'companyLogoUrl' | 'searches'>;
+
+// What the ad page itself can't tell: the settings of the run and what the search results said about the ad
+export interface ParseOptions {
+    labelSets?: LabelSets; // Defaults to the bundled nb, nn and en labels
+    skillTaxonomy?: CompiledSkill[]; // Defaults to the bundled taxonomy
+    maxDescriptionLength?: number; // 0 keeps the full description
+    now?: Date; // Day daysUntilDeadline is counted from
+    section?: JobSection; // Used when the URL has no section
+    searches?: string[];
+    renderer?: Renderer;
+}
+
+// Which selector fallback filled a field, e.g. 'subtitle' for a company name read from under the title.
+// Fields read from structured data have no branch; their fieldSources entry tells where they came from.
+export type FieldBranches = Partial<Record<keyof JobData, string>>;
+
+// A parsed ad, with the employer details the crawler merges into its company records
+export interface ParsedJobAd {
+    job: JobData;
+    companyDetails: CompanyDetails;
+    branches: FieldBranches;
+}
+
+// The bundled labels and taxonomy are only built when a caller doesn't bring its own
+let defaultLabelSets: LabelSets | undefined;
+let defaultTaxonomy: CompiledSkill[] | undefined;
+
+// The result unit around an ad link, in each Finn layout
+const CARD_SELECTOR = '.ads__unit, .f-card, .sf-search-ad, article';
+
+// "1 234 treff", "56 ledige stillinger", "789 results"
+const RESULT_COUNT_PATTERN = /(\d{1,3}(?:[\s.]\d{3})+|\d+)\s+(?:treff|annonser|ledige stillingar|ledige stillinger|stillinger|stillingar|results|jobs)\b/i;
+
+// Salary snippets on cards, when they have no label: "kr 600 000", "550 000 NOK", "700k"
+const SALARY_SNIPPET_PATTERN = /\bkr\b.*\d|\d.*\b(?:kr|nok)\b|\d\s*k\b/i;
+
+const cleanText = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+// The first non-empty text among the card elements matching each selector in turn
+const firstText = (card: CheerioNodes, selectors: string[]): string | undefined => {
+    for (const selector of selectors) {
+        const text = cleanText(card.find(selector).first().text());
+        if (text) return text;
+    }
+    return undefined;
+};
+
+// Read what a search result card shows about its ad. Cards have no labels, so the snippets are told apart
+// by their markup and, for the salary and employment type, by what they say.
+const extractCard = ($: CheerioRoot, card: CheerioNodes, link: CheerioNodes, labels: LabelDictionary, now: Date): ListingCard => {
+    const logo = card.find('img').first();
+    const logoAlt = cleanText(logo.attr('alt') ?? '').replace(/\s*logo$/i, '');
+
+    // Texts of the card's innermost elements, and their parts separated by dots, bars or commas
+    const snippets = card.find('*').filter((_, element) => $(element).children().length === 0)
+        .map((_, element) => cleanText($(element).text()))
+        .get()
+        .filter(Boolean);
+    const parts = snippets.flatMap((snippet) => snippet.split(/\s*[·•|,]\s*/));
+
+    const salaryText = snippets.find((snippet) => includesAny(snippet, labels.salary) || SALARY_SNIPPET_PATTERN.test(snippet));
+    const employmentType = labels.employmentTypes.find((type) => parts.some((part) => part.toLowerCase() === type.toLowerCase()));
+    const publicationDateRaw = card.find('time[datetime]').attr('datetime')
+        || firstText(card, ['time', '[class*="published"]', '[class*="timestamp"]'])
+        || snippets.find((snippet) => parseRelativeTime(snippet, now));
+
+    return {
+        title: firstText(card, ['h2', 'h3', '.ads__unit__link']) || cleanText(link.text()) || undefined,
+        company: firstText(card, ['.ads__unit__content__list', '[class*="company"]', '[class*="employer"]']) || logoAlt || undefined,
+        location: firstText(card, ['.ads__unit__content__details', '[class*="location"]']),
+        employmentType,
+        salary: salaryText ? parseSalary(removeLabel(salaryText, labels.salary).trim()) : undefined,
+        publicationDate: parseNorwegianDate(publicationDateRaw) ?? parseRelativeTime(publicationDateRaw, now),
+        publicationDateRaw,
+        companyLogoUrl: logo.attr('src') || logo.attr('data-src') || undefined,
+    };
+};
+
+// The number of results the page says the search has, from its headings or else anywhere in its text
+const extractTotalResults = ($: CheerioRoot): number | undefined => {
+    const candidates = ['h1', 'h2', '[aria-live]', '[class*="result"]', 'body'].map((selector) => $(selector).text());
+    const match = candidates.map((text) => cleanText(text).match(RESULT_COUNT_PATTERN)).find(Boolean);
+    return match ? Number(match[1].replace(/[\s.]/g, '')) : undefined;
+};
+
+// Find the job links of a search results page, trying the markup of each Finn layout in turn,
+// with what each ad's card shows about it
+export const extractSearchPage = ($: CheerioRoot, url: string, options: Pick<ParseOptions, 'labelSets' | 'now'> = {}): SearchPage => {
+    const labelSets = options.labelSets ?? (defaultLabelSets ??= buildLabelSets());
+    const now = options.now ?? new Date();
+    // Search pages have no language of their own worth detecting, so cards are read with the labels of every language
+    const labels = Object.fromEntries((Object.keys(labelSets.nb) as LabelKey[])
+        .map((key) => [key, Object.values(labelSets).flatMap((set) => set[key])])) as LabelDictionary;
+
+    // Try multiple selector patterns to find job listings
+    let jobLinks = $('.ads__unit > .ads__unit__link'); // Original selector
+
+    // If the original selector doesn't find anything, try alternative selectors
+    if (jobLinks.length === 0) {
+        jobLinks = $('.f-card--job a');
+    }
+
+    if (jobLinks.length === 0) {
+        jobLinks = $('.sf-search-ad a');
+    }
+
+    if (jobLinks.length === 0) {
+        jobLinks = $('a[href*="/ad.html"], a[href*="/job/ad/"]');
+    }
+
+    const searchSection = classifyFinnUrl(url)?.section;
+    const ads = new Map<string, ListedLink>();
+    jobLinks.each((_, element) => {
+        const href = $(element).attr('href');
+        const ad = href ? classifyFinnUrl(href) : undefined;
+        if (ad?.kind !== 'ad' || !ad.finnkode || ads.has(ad.finnkode)) return;
+        const link = $(element);
+        const cardElement = link.closest(CARD_SELECTOR);
+        const card = extractCard($, cardElement.length > 0 ? cardElement : link.parent(), link, labels, now);
+        ads.set(ad.finnkode, { url: ad.url, finnkode: ad.finnkode, section: ad.section ?? searchSection, card });
+    });
+
+    // Find pagination links, and only follow those that are actually Finn job search pages
+    let paginationLinks = $('a.pagination__page');
+    if (paginationLinks.length === 0) {
+        paginationLinks = $('a[href*="page="]');
+    }
+
+    const nextPageUrls = new Set<string>();
+    paginationLinks.each((_, element) => {
+        const href = $(element).attr('href');
+        if (!href) return;
+        try {
+            const pageUrl = new URL(href, url).toString();
+            if (classifyFinnUrl(pageUrl)?.kind === 'search') nextPageUrls.add(pageUrl);
+        } catch {
+            // Not a URL
+        }
+    });
+
+    return {
+        listingCount: jobLinks.length,
+        totalResults: extractTotalResults($),
+        ads: [...ads.values()],
+        nextPageUrls: [...nextPageUrls],
+    };
+};
+
+// The record listing mode stores for an ad, from its search result card alone
+export const toListingRecord = (ad: ListedLink, searches?: string[]): ListingRecord => ({
+    url: ad.url,
+    finnkode: ad.finnkode,
+    title: ad.card.title ?? '',
+    company: ad.card.company ?? '',
+    section: ad.section,
+    location: ad.card.location,
+    locations: ad.card.location ? parseLocations(ad.card.location) : undefined,
+    employmentType: ad.card.employmentType,
+    salary: ad.card.salary,
+    publicationDate: ad.card.publicationDate,
+    publicationDateRaw: ad.card.publicationDateRaw,
+    companyLogoUrl: ad.card.companyLogoUrl,
+    searches,
+});
+
+// Extract the job record and its employer's details from an ad page
+export const extractJobAd = ($: CheerioRoot, url: string, options: ParseOptions = {}): ParsedJobAd => {
+    const labelSets = options.labelSets ?? (defaultLabelSets ??= buildLabelSets());
+    const skillTaxonomy = options.skillTaxonomy ?? (defaultTaxonomy ??= buildTaxonomy());
+    const maxDescriptionLength = options.maxDescriptionLength ?? 0;
+
+    // Normalise whichever URL shape the ad was found under to its canonical URL and finnkode
+    const classifiedUrl = classifyFinnUrl(url);
+    const finnkode = classifiedUrl?.finnkode;
+    const section = classifiedUrl?.section ?? options.section;
+
+    // Read JSON-LD and embedded page state first - the selectors below are only a per-field fallback
+    const structured = extractStructuredJobData($);
+    const branches: FieldBranches = {};
+
+    // Labels in the ad's language are looked for first, then those of the other languages
+    const descriptionContainer = $('section[aria-label="Jobbdetaljer"], section:contains("En vanlig arbeidsdag"), section .import-decoration').first();
+    const language = detectLanguage(descriptionContainer.text(), $('html').attr('lang'));
+    const labels = labelSets[language ?? 'nb'];
+
+    // Extract job title - both main title and subtitle
+    const mainTitle = $('h2.t2, h2.t3, h1.t2, h1.t3, .t2, .t1').first().text().trim();
+    const subTitle = $('h1').first().text().trim();
+    const title = structured.fields.title || mainTitle || subTitle;
+    if (!structured.fields.title && title) branches.title = mainTitle ? 'heading' : 'h1';
+
+    // Extract company name with improved extraction logic
+    let company = structured.fields.company || '';
+
+    // 1. Try the most reliable method first - from the subtitle under the main title
+    if (!company) {
+        company = $('section.space-y-16 > p').first().text().trim();
+        if (company) branches.company = 'subtitle';
+    }
+
+    // 2. If that fails, try from the metadata definition list ("Firma")
+    if (!company) {
+        const firmaElement = findByLabel($, 'dt', labels.company).next('dd');
+        if (firmaElement.length > 0) {
+            company = firmaElement.text().trim();
+            if (company) branches.company = 'definition-list';
+        }
+    }
+
+    // 3. Try from the logo alt text if it exists
+    if (!company) {
+        const logoAlt = $('.company-logo img').attr('alt');
+        if (logoAlt && logoAlt.includes('logo')) {
+            company = logoAlt.replace(/\slogo$/i, '').trim();
+            if (company) branches.company = 'logo-alt';
+        }
+    }
+
+    // 4. Last resort - try from any structured data available
+    if (!company) {
+        // Look for any element that might contain the company name
+        const aboutEmployer = findByLabel($, 'h2', labels.aboutEmployer).next('div').find('p').first();
+        const candidates: [string, string][] = [
+            ['labelled-text', removeLabel(findByLabel($, 'span', labels.company.map((label) => `${label}:`)).parent().text(), labels.company).trim()],
+            ['about-employer', aboutEmployer.text().trim()],
+            ['profile-podlet', $('div.job-extended-profile-podlet-expandable').text().split('Les om arbeidsplassen')[0].trim()],
+        ];
+        const found = candidates.find(([, value]) => value);
+        if (found) [branches.company, company] = found;
+    }
+
+    // Extract company logo URL
+    const companyLogoUrl = structured.fields.companyLogoUrl || $('.company-logo img, img[alt*="logo"]').attr('src') || undefined;
+    if (!structured.fields.companyLogoUrl && companyLogoUrl) branches.companyLogoUrl = 'logo-image';
+
+    // The employer as far as the ad tells; the crawler links ads pointing at the same profile to one record
+    const companyDetails: CompanyDetails = { ...extractCompanyDetails($, labels), name: company || undefined, logoUrl: companyLogoUrl };
+    const companyId = companyIdFor(companyDetails);
+
+    // Convert the full job description to Markdown and plain text, split into named sections
+    const descriptionData = convertDescription($, descriptionContainer);
+    const description = truncate(descriptionData.markdown, maxDescriptionLength);
+    const descriptionText = truncate(descriptionData.text, maxDescriptionLength);
+    const descriptionSections = descriptionData.sections.map((part) => ({ ...part, content: truncate(part.content, maxDescriptionLength) }));
+
+    // Tag the skills and technologies the ad asks for, using the full description rather than the truncated one
+    const skills = tagSkills(skillTaxonomy, title, descriptionData.sections);
+
+    // Extract contact information
+    const jobDetailsText = $('body').text();
+
+    // Collect every email address on the page, including mailto links and Cloudflare-protected ones
+    const pageEmails = findEmailsIn($('body'));
+
+    // Find contact persons - create an array to store multiple contacts
+    const contactPersons: ContactPersonData[] = [];
+
+    // Get all contact person elements
+    const contactElements = findByLabel($, 'span.pr-8.font-bold', labels.contactPerson).parent('li');
+
+    if (contactElements.length > 0) {
+        branches.contactPersons = 'contact-list';
+        // Multiple or single contact person in structured format
+        contactElements.each((_, element) => {
+            const name = removeLabel($(element).text(), labels.contactPerson).trim();
+
+            let contactRole: string | undefined;
+
+            // Take the role, phone number and email from this contact's part of the list, not from the next contact's
+            const isNextContact = (text: string) => includesAny(text, labels.contactPerson);
+            const contactPhone = findContactPhone($(element), isNextContact);
+            const contactEmail = findContactEmail($(element), isNextContact);
+
+            $(element).nextAll('li').each((__, item) => {
+                const text = $(item).text();
+                if (isNextContact(text)) return false;
+                if (includesAny(text, labels.jobTitle)) {
+                    contactRole = removeLabel(text, labels.jobTitle).trim();
+                    return false;
+                }
+                return undefined;
+            });
+
+            // Add this contact to our array
+            contactPersons.push({
+                name,
+                role: contactRole,
+                phoneNumber: contactPhone?.e164,
+                phoneType: contactPhone?.type,
+                email: contactEmail,
+            });
+        });
+    } else if (findByLabel($, 'li', labels.contactPerson).length > 0) {
+        branches.contactPersons = 'list-item';
+        // Alternative format
+        const contactPersonName = removeLabel(findByLabel($, 'li', labels.contactPerson).text(), labels.contactPerson).trim();
+
+        // For this format, try to find phone number and email near this contact
+        const contactLi = findByLabel($, 'li', labels.contactPerson).first();
+        const isNextContact = (text: string) => includesAny(text, labels.contactPerson);
+        const contactPhone = findContactPhone(contactLi, isNextContact);
+        const contactEmail = findContactEmail(contactLi, isNextContact);
+
+        contactPersons.push({
+            name: contactPersonName,
+            phoneNumber: contactPhone?.e164,
+            phoneType: contactPhone?.type,
+            email: contactEmail,
+        });
+    } else if (findByLabel($, 'strong', labels.recruitingManager).length > 0) {
+        branches.contactPersons = 'recruiting-manager';
+        // Check for recruiting manager info
+        const leaderElement = findByLabel($, 'strong', labels.recruitingManager).parent();
+        const leaderInfo = leaderElement.text();
+        const leaderName = removeLabel(leaderInfo, labels.recruitingManager).split('|')[0].trim();
+
+        // Try to extract phone from the leader info
+        const contactPhone = findPhoneNumbers(leaderInfo)[0];
+
+        // Try to extract email from the leader info
+        const contactEmail = findEmailsIn(leaderElement)[0];
+
+        contactPersons.push({
+            name: leaderName,
+            phoneNumber: contactPhone?.e164,
+            phoneType: contactPhone?.type,
+            email: contactEmail,
+        });
+    }
+
+    // Assign every address on the page to a contact, or mark it as a shared company or recruitment mailbox
+    const emails = resolveEmails([...contactPersons.flatMap((person) => (person.email ? [person.email] : [])), ...pageEmails], contactPersons);
+    const email = emails[0]?.address;
+
+    // Extract application URL - look for "Søk" or "Apply" buttons
+    const applyLink = findByLabel($, 'a', labels.apply).attr('href');
+    const applicationUrl = applyLink || $('a.button--attention').attr('href') || undefined;
+    if (applicationUrl) branches.applicationUrl = applyLink ? 'apply-link' : 'attention-button';
+
+    // Find location information
+    let { location } = structured.fields;
+    if (!location) {
+        if (findByLabel($, 'span.pr-8.font-bold', labels.location).length > 0) {
+            location = findByLabel($, 'span.pr-8.font-bold', labels.location).next().text().trim();
+            branches.location = 'labelled-text';
+        } else if (findByLabel($, 'li', labels.location).length > 0) {
+            location = removeLabel(findByLabel($, 'li', labels.location).text(), labels.location).trim();
+            branches.location = 'list-item';
+        } else {
+            // Try to extract postal code and city from any available address
+            const addressText = findByLabel($, 'section', labels.companyLocation).find('p').text().trim();
+            if (addressText) {
+                location = addressText;
+                branches.location = 'company-location';
+            }
+        }
+    }
+
+    // Resolve postal codes, municipalities and counties from the bundled postal code register
+    const locations = location ? parseLocations(location) : undefined;
+
+    // Find employment type
+    let { employmentType } = structured.fields;
+
+    if (!employmentType) {
+        employmentType = labels.employmentTypes.find((label) => jobDetailsText.includes(label));
+        if (employmentType) branches.employmentType = 'ad-text';
+    }
+
+    if (!employmentType && findByLabel($, 'li', labels.employmentType).length > 0) {
+        employmentType = removeLabel(findByLabel($, 'li', labels.employmentType).text(), labels.employmentType).trim();
+        branches.employmentType = 'list-item';
+    }
+
+    // Find deadlines and publication dates
+    let expirationDateRaw = structured.fields.expirationDate;
+    if (!expirationDateRaw) {
+        if (findByLabel($, 'li', labels.deadline).length > 0) {
+            expirationDateRaw = findByLabel($, 'li', labels.deadline).find('.font-bold').text().trim();
+            branches.expirationDateRaw = 'list-item';
+        } else if (findByLabel($, 'span', labels.deadline).length > 0) {
+            expirationDateRaw = removeLabel(findByLabel($, 'span', labels.deadline).parent().text(), labels.deadline).trim();
+            branches.expirationDateRaw = 'labelled-text';
+        }
+    }
+
+    // Deadlines are either a date or a phrase such as "Snarest" or "Løpende"
+    const expirationDate = parseNorwegianDate(expirationDateRaw);
+    const deadlineType = expirationDateRaw ? classifyDeadline(expirationDateRaw, expirationDate) : undefined;
+    const daysUntilDeadline = expirationDate ? daysUntil(expirationDate, options.now ?? new Date()) : undefined;
+
+    // Get publication date from metadata
+    const publicationDateRaw = structured.fields.publicationDate || $('time[datetime]').attr('datetime') || undefined;
+    if (!structured.fields.publicationDate && publicationDateRaw) branches.publicationDateRaw = 'time-element';
+    const publicationDate = parseNorwegianDate(publicationDateRaw);
+
+    // "Sist endret" is when the ad was last edited
+    const lastModifiedRaw = removeLabel(findByLabel($, 'li', labels.lastModified).text(), labels.lastModified).trim() || undefined;
+    const lastModified = parseNorwegianDate(lastModifiedRaw);
+
+    // Find the salary text and parse it into amounts, currency and period
+    let salaryText = structured.fields.salary;
+    if (!salaryText) {
+        if (findByLabel($, 'dt', labels.salary).length > 0) {
+            salaryText = findByLabel($, 'dt', labels.salary).first().next('dd').text()
+                .trim();
+            branches.salary = 'definition-list';
+        } else if (findByLabel($, 'li', labels.salary).length > 0) {
+            salaryText = removeLabel(findByLabel($, 'li', labels.salary).first().text(), labels.salary).trim();
+            branches.salary = 'list-item';
+        }
+    }
+    const salary = salaryText ? parseSalary(salaryText) : undefined;
+
+    // Create the job data object
+    const job: JobData = {
+        url: classifiedUrl?.url ?? url,
+        title,
+        description,
+        descriptionText: descriptionText || undefined,
+        descriptionSections: descriptionSections.length > 0 ? descriptionSections : undefined,
+        skills: skills.length > 0 ? skills : undefined,
+        company,
+        companyId,
+        contactPersons: contactPersons.length > 0 ? contactPersons : undefined,
+        email,
+        emails: emails.length > 0 ? emails : undefined,
+        applicationUrl,
+        location,
+        locations,
+        employmentType,
+        salary,
+        publicationDate,
+        publicationDateRaw,
+        expirationDate,
+        expirationDateRaw,
+        deadlineType,
+        daysUntilDeadline,
+        lastModified,
+        lastModifiedRaw,
+        finnkode,
+        section,
+        companyLogoUrl,
+        searches: options.searches,
+        renderer: options.renderer ?? 'cheerio',
+        language,
+    };
+    job.fieldSources = resolveFieldSources(job, structured.sources);
+
+    return { job, companyDetails, branches };
+};
+
+// crawlee types its Cheerio instance with the CommonJS build of cheerio, so the pages are loaded with that build too
+type CheerioModule = typeof import('cheerio', { with: { 'resolution-mode': 'require' } });
+const { load } = createRequire(import.meta.url)('cheerio') as CheerioModule;
+
+const loadHtml = (html: string): CheerioRoot => load(html);
+
+// Parse the HTML of a search results page into the ads it lists and its other result pages
+export const parseSearchPage = (html: string, url: string, options: Pick<ParseOptions, 'labelSets' | 'now'> = {}): SearchPage => {
+    return extractSearchPage(loadHtml(html), url, options);
+};
+
+// Parse the HTML of an ad page into a job record
+export const parseJobAd = (html: string, url: string, options: ParseOptions = {}): JobData => extractJobAd(loadHtml(html), url, options).job;
@@ -0,0 +1,114 @@
+import { CheerioNodes } from './dom.js';
+
+// What kind of line a Norwegian number belongs to, by its number range
+export type PhoneType = 'mobile' | 'landline' | 'service';
+
+export interface PhoneNumberData {
+    raw: string;
+    e164: string; // +4712345678
+    type: PhoneType;
+}
+
+// Digit groups with at most one separator between them, optionally with a country code in front.
+// A number may follow a letter directly, as labels and values of separate elements run together in the text.
+const CANDIDATE_PATTERN = /(?:(?:\+|(?<!\d)00)\s?\d{2}\s?|(?<!\d))\d(?:[ .\u00a0-]?\d){6,}/g;
+
+// "Telefon: ", "Mob.", "tlf" - a number right after one of these is a phone number whatever it looks like
+const PHONE_LABEL_PATTERN = /(telefon|tlf|mobil|mob|phone|tel|ring)\.?:?\s*$/i;
+
+// Numbers that are labelled as something else
+const OTHER_LABEL_PATTERN = /(finn-?kode|org\.?\s*n(r|ummer)|organisasjonsnummer|kontonummer|konto|ref|stillingsnummer|id)\.?:?\s*$/i;
+
+// Amounts such as "kr 45 000 000" or "45 000 000,-"
+const AMOUNT_BEFORE_PATTERN = /(kr|nok)\.?\s*$/i;
+const AMOUNT_AFTER_PATTERN = /^\s*(,-|kr\b|nok\b)/i;
+
+// 15.11.2026, 15-11-2026, 2026-11-15
+const DATE_PATTERN = /^(\d{1,2}[.-]\d{1,2}[.-]\d{2,4}|\d{4}[.-]\d{1,2}[.-]\d{1,2})$/;
+
+// 20261115 written without separators
+const isCompactDate = (digits: string): boolean => {
+    const match = digits.match(/^(19|20)(\d{2})(\d{2})(\d{2})$/);
+    if (!match) return false;
+    const month = Number(match[3]);
+    const day = Number(match[4]);
+    return month >= 1 && month <= 12 && day >= 1 && day <= 31;
+};
+
+// Norwegian numbers are eight digits. 4xx and 9xx are mobile, 2xx, 3xx, 5xx, 6xx and 7xx are landline,
+// 8xx are free, shared-cost and other service numbers. 0 and 1 only start short codes.
+const classifyNumber = (national: string): PhoneType | undefined => {
+    if (/^[49]/.test(national)) return 'mobile';
+    if (/^[23567]/.test(national)) return 'landline';
+    if (/^8/.test(national)) return 'service';
+    return undefined;
+};
+
+// Parse a single phone number such as "+47 912 34 567", "0047 22 33 44 55" or "91234567"
+export const parsePhoneNumber = (raw: string): PhoneNumberData | undefined => {
+    const text = raw.trim();
+    let digits = text.replace(/\D/g, '');
+
+    const hasPrefix = /^(\+|00)/.test(text);
+    if (hasPrefix) {
+        if (!digits.startsWith('0047') && !digits.startsWith('47')) return undefined;
+        digits = digits.replace(/^(00)?47/, '');
+    }
+
+    if (digits.length !== 8) return undefined;
+
+    const type = classifyNumber(digits);
+    if (!type) return undefined;
+
+    return { raw: text, e164: `+47${digits}`, type };
+};
+
+// Find every Norwegian phone number in a piece of text. Dates, finnkodes, org numbers and amounts
+// that look like numbers are skipped unless the number is labelled as a phone number.
+export const findPhoneNumbers = (text: string): PhoneNumberData[] => {
+    const found = new Map<string, PhoneNumberData>();
+
+    for (const match of text.matchAll(CANDIDATE_PATTERN)) {
+        const candidate = match[0];
+        const before = text.slice(Math.max(0, (match.index ?? 0) - 30), match.index);
+        const after = text.slice((match.index ?? 0) + candidate.length, (match.index ?? 0) + candidate.length + 10);
+
+        if (OTHER_LABEL_PATTERN.test(before)) continue;
+        // A number running on into more digits is part of something longer
+        if (/\d$/.test(before) || /^\d/.test(after)) continue;
+
+        const phone = parsePhoneNumber(candidate);
+        if (!phone) continue;
+
+        const isLabelled = PHONE_LABEL_PATTERN.test(before);
+        const hasPrefix = /^(\+|00)/.test(candidate);
+        // Digits glued to a word are only a phone number when the word is a phone label
+        if (/\p{L}$/u.test(before) && !isLabelled) continue;
+        if (!isLabelled && !hasPrefix) {
+            if (DATE_PATTERN.test(candidate.trim()) || isCompactDate(candidate.replace(/\D/g, ''))) continue;
+            if (AMOUNT_BEFORE_PATTERN.test(before) || AMOUNT_AFTER_PATTERN.test(after)) continue;
+        }
+
+        if (!found.has(phone.e164)) found.set(phone.e164, phone);
+    }
+
+    return [...found.values()];
+};
+
+// The phone number of one contact: from the contact's own element first, then from the elements
+// following it in the same block, stopping where the next contact starts
+export const findContactPhone = (contact: CheerioNodes, isNextContact: (text: string) => boolean): PhoneNumberData | undefined => {
+    const own = findPhoneNumbers(contact.text())[0];
+    if (own) return own;
+
+    const siblings = contact.nextAll();
+    for (let i = 0; i < siblings.length; i++) {
+        const text = siblings.eq(i).text();
+        if (isNextContact(text)) break;
+
+        const phone = findPhoneNumbers(text)[0];
+        if (phone) return phone;
+    }
+
+    return undefined;
+};
@@ -0,0 +1,51 @@
+// What happened to an ad that was given one of the maxJobs slots. Released and skipped slots don't count towards the quota.
+export type SlotStatus = 'reserved' | 'done' | 'released' | 'skipped';
+
+// The maxJobs quota. A slot is reserved when an ad is listed, so concurrent requests can never take more
+// than maxJobs ads, and given back when scraping the ad fails so another listed ad can take its place.
+export interface QuotaState {
+    limit: number;
+    slots: Record<string, SlotStatus>; // Keyed by finnkode
+}
+
+export const createQuota = (limit: number): QuotaState => ({ limit, slots: {} });
+
+const holdsSlot = (status: SlotStatus | undefined): boolean => status === 'reserved' || status === 'done';
+
+export const usedSlots = (quota: QuotaState): number => Object.values(quota.slots).filter(holdsSlot).length;
+
+export const hasFreeSlot = (quota: QuotaState): boolean => usedSlots(quota) < quota.limit;
+
+// Reserve a slot for an ad. Returns false when the quota is full or the ad already failed or was skipped;
+// an ad that already holds a slot keeps it.
+export const reserveSlot = (quota: QuotaState, finnkode: string): boolean => {
+    if (quota.slots[finnkode]) return holdsSlot(quota.slots[finnkode]);
+    if (!hasFreeSlot(quota)) return false;
+    quota.slots[finnkode] = 'reserved';
+    return true;
+};
+
+// Mark an ad as handled, so a resumed run doesn't scrape it again
+export const completeSlot = (quota: QuotaState, finnkode: string): void => {
+    quota.slots[finnkode] = 'done';
+};
+
+// Give the slot of an ad that couldn't be scraped back to the quota. The ad isn't given another one.
+export const releaseSlot = (quota: QuotaState, finnkode: string): void => {
+    if (quota.slots[finnkode] === 'reserved') quota.slots[finnkode] = 'released';
+};
+
+// Mark an ad that was scraped but left out of the output, as too old, a duplicate or unchanged. Its slot goes
+// to another listed ad, and a resumed run doesn't scrape it again.
+export const skipSlot = (quota: QuotaState, finnkode: string): void => {
+    quota.slots[finnkode] = 'skipped';
+};
+
+// Whether the ad was handled, whether or not it was output
+export const isSlotDone = (quota: QuotaState, finnkode: string): boolean => quota.slots[finnkode] === 'done' || quota.slots[finnkode] === 'skipped';
+
+// Whether the ad holds a slot but hasn't been handled yet
+export const isReserved = (quota: QuotaState, finnkode: string): boolean => quota.slots[finnkode] === 'reserved';
+
+// Whether the ad never got a slot, so it can take one that was released
+export const isWaiting = (quota: QuotaState, finnkode: string): boolean => quota.slots[finnkode] === undefined;
@@ -0,0 +1,45 @@
+import { CheerioRoot, Request, RestrictedCrawlingContext, RouterHandler, createPlaywrightRouter } from 'crawlee';
+
+// Which crawler produced a record: the plain HTTP one, or the browser fallback of hybrid mode
+export type Renderer = 'cheerio' | 'playwright';
+
+// What the handlers read from a crawling context: the Cheerio crawler's context has it all,
+// and the browser crawler's context is given the parsed page and the status code
+export interface PageContext extends RestrictedCrawlingContext {
+    $: CheerioRoot;
+    response?: { statusCode?: number };
+}
+
+// What the rendered page is waited for, per label, before its HTML is handed to the handlers
+const READY_SELECTORS: Record<string, string> = {
+    LIST: '.ads__unit, .f-card, .sf-search-ad, a[href*="/ad.html"], a[href*="/job/ad/"]',
+    DETAIL: 'h1',
+};
+const READY_TIMEOUT_MS = 15000;
+
+// A copy of a request for the browser crawler. It gets a uniqueKey of its own, as the request queue
+// already holds the original as handled.
+export const toBrowserRequest = (request: Request): Request => new Request({
+    url: request.url,
+    uniqueKey: `${request.uniqueKey}#playwright`,
+    label: request.label,
+    userData: { ...request.userData, renderer: 'playwright' },
+});
+
+// A Playwright router that renders the page and then runs the page router's handler for the request's label
+// on the rendered HTML, so both crawlers share the same extraction logic
+export const createBrowserRouter = (pageRouter: RouterHandler<PageContext>) => {
+    const router = createPlaywrightRouter();
+    router.addDefaultHandler(async (context) => {
+        const selector = READY_SELECTORS[context.request.label ?? ''];
+        if (selector) {
+            await context.page.waitForSelector(selector, { timeout: READY_TIMEOUT_MS }).catch(() => {
+                context.log.warning(`Rendered page ${context.request.url} still has no ${selector}`);
+            });
+        }
+
+        const $ = await context.parseWithCheerio();
+        await pageRouter({ ...context, $, response: { statusCode: context.response?.status() } });
+    });
+    return router;
+};
@@ -0,0 +1,191 @@
+import { Actor } from 'apify';
+import { isoWeek } from './dates.js';
+import { LocationData } from './location.js';
+import { escapeXml } from './xml.js';
+
+// The fields of a job record the report aggregates
+export interface ReportableJob {
+    finnkode?: string;
+    company: string;
+    location?: string;
+    locations?: LocationData[];
+    employmentType?: string;
+    section?: string;
+    expirationDate?: string;
+    deadlineType?: string;
+    salary?: object;
+    contactPersons?: object[];
+    email?: string;
+}
+
+export interface Count {
+    label: string;
+    count: number;
+}
+
+export interface Share {
+    count: number;
+    percent: number;
+}
+
+// How many results Finn showed for a search, and how many ads the run listed from it
+export interface SearchTotal {
+    searchId: string;
+    totalResults?: number; // Unknown when the result page didn't show a count
+    adsListed: number;
+}
+
+export interface MarketReport {
+    generatedAt: string;
+    totalAds: number;
+    newVsReturning: { new: number; returning: number } | null; // Only known when earlier runs were remembered
+    withSalary: Share;
+    withContact: Share;
+    topCompanies: Count[];
+    byCompany: Count[];
+    byLocation: Count[];
+    byEmploymentType: Count[];
+    bySection: Count[];
+    byDeadlineWeek: Count[]; // In calendar order, followed by the ads without a dated deadline
+    searches: SearchTotal[];
+}
+
+const REPORT_JSON_KEY = 'REPORT.json';
+const REPORT_HTML_KEY = 'REPORT.html';
+
+const TOP_COMPANIES = 10;
+// Rows per chart in the HTML report; REPORT.json has every row
+const CHART_ROWS = 15;
+const UNKNOWN = 'Unknown';
+
+// Count the labels, most frequent first. A record with several labels counts once for each of them.
+const countBy = <T>(items: T[], labelsOf: (item: T) => string[]): Count[] => {
+    const counts = new Map<string, number>();
+    for (const item of items) {
+        for (const label of new Set(labelsOf(item))) counts.set(label, (counts.get(label) ?? 0) + 1);
+    }
+    return [...counts].map(([label, count]) => ({ label, count })).sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+};
+
+const toShare = (count: number, total: number): Share => ({ count, percent: total > 0 ? Math.round((count / total) * 1000) / 10 : 0 });
+
+// Ads are counted in each city they are posted for, falling back to the location text
+const locationsOf = (job: ReportableJob): string[] => {
+    const cities = (job.locations ?? []).flatMap((location) => (location.city ? [location.city] : []));
+    if (cities.length > 0) return cities;
+    return [job.location || UNKNOWN];
+};
+
+// "2024-W23" for dated deadlines, otherwise the kind of deadline, e.g. "asap"
+const deadlineWeekOf = (job: ReportableJob): string => (job.expirationDate ? isoWeek(job.expirationDate) : job.deadlineType || UNKNOWN);
+
+// Only the fields the report reads, so every ad of a run can be kept in the run state
+export const toReportableJob = (job: ReportableJob): ReportableJob => ({
+    finnkode: job.finnkode,
+    company: job.company,
+    location: job.location,
+    locations: job.locations,
+    employmentType: job.employmentType,
+    section: job.section,
+    expirationDate: job.expirationDate,
+    deadlineType: job.deadlineType,
+    salary: job.salary,
+    contactPersons: job.contactPersons,
+    email: job.email,
+});
+
+// Build the report from the ads of the run. knownFinnkodes are the ads earlier runs saw, when they were remembered.
+export const buildMarketReport = (jobs: ReportableJob[], knownFinnkodes?: Set<string>, searches: SearchTotal[] = [], now = new Date()): MarketReport => {
+    const byCompany = countBy(jobs, (job) => [job.company || UNKNOWN]);
+    const returning = knownFinnkodes ? jobs.filter((job) => job.finnkode && knownFinnkodes.has(job.finnkode)).length : 0;
+    const byDeadlineWeek = countBy(jobs, (job) => [deadlineWeekOf(job)]);
+
+    return {
+        generatedAt: now.toISOString(),
+        totalAds: jobs.length,
+        newVsReturning: knownFinnkodes ? { new: jobs.length - returning, returning } : null,
+        withSalary: toShare(jobs.filter((job) => job.salary).length, jobs.length),
+        withContact: toShare(jobs.filter((job) => job.contactPersons?.length || job.email).length, jobs.length),
+        topCompanies: byCompany.filter(({ label }) => label !== UNKNOWN).slice(0, TOP_COMPANIES),
+        byCompany,
+        byLocation: countBy(jobs, locationsOf),
+        byEmploymentType: countBy(jobs, (job) => [job.employmentType || UNKNOWN]),
+        bySection: countBy(jobs, (job) => [job.section || UNKNOWN]),
+        // Weeks sort before the undated deadlines, as digits sort before letters
+        byDeadlineWeek: byDeadlineWeek.sort((a, b) => a.label.localeCompare(b.label)),
+        searches,
+    };
+};
+
+// A horizontal bar chart as inline SVG, so the report needs no scripts or network access
+const barChart = (counts: Count[]): string => {
+    if (counts.length === 0) return '<p class="empty">No ads</p>';
+
+    const rows = counts.slice(0, CHART_ROWS);
+    const max = Math.max(...rows.map(({ count }) => count));
+    const rowHeight = 26;
+    const labelWidth = 230;
+    const barWidth = 380;
+    const bars = rows.map(({ label, count }, index) => {
+        const y = index * rowHeight;
+        const width = Math.max(2, Math.round((count / max) * barWidth));
+        const shortLabel = label.length > 34 ? `${label.slice(0, 33)}…` : label;
+        return `<g><title>${escapeXml(label)}: ${count}</title>`
+            + `<text x="${labelWidth - 8}" y="${y + 17}" text-anchor="end">${escapeXml(shortLabel)}</text>`
+            + `<rect x="${labelWidth}" y="${y + 4}" width="${width}" height="18" rx="3"></rect>`
+            + `<text x="${labelWidth + width + 6}" y="${y + 17}">${count}</text></g>`;
+    });
+    const more = counts.length > rows.length ? `<p class="more">and ${counts.length - rows.length} more in REPORT.json</p>` : '';
+    return `<svg viewBox="0 0 ${labelWidth + barWidth + 50} ${rows.length * rowHeight + 6}" role="img">${bars.join('')}</svg>${more}`;
+};
+
+const tile = (label: string, value: string): string => `<div class="tile"><div class="value">${escapeXml(value)}</div><div>${escapeXml(label)}</div></div>`;
+
+const STYLE = [
+    'body{font-family:system-ui,-apple-system,"Segoe UI",sans-serif;margin:2rem auto;max-width:760px;padding:0 1rem;color:#1b1b1f}',
+    'h1{font-size:1.6rem;margin-bottom:.2rem}h2{font-size:1.15rem;margin-top:2rem}',
+    '.generated,.empty,.more{color:#67676f;font-size:.9rem}',
+    '.tiles{display:flex;flex-wrap:wrap;gap:.8rem;margin-top:1.2rem}',
+    '.tile{flex:1 1 150px;background:#f1f4f9;border-radius:8px;padding:.8rem 1rem}',
+    '.tile .value{font-size:1.5rem;font-weight:600}',
+    'svg{width:100%;height:auto;font-size:13px}svg rect{fill:#0063fb}svg text{fill:#1b1b1f}',
+].join('');
+
+// The report as a single HTML page with inline styles and charts
+export const buildReportHtml = (report: MarketReport): string => {
+    const { newVsReturning } = report;
+    const tiles = [
+        tile('Ads', String(report.totalAds)),
+        ...(newVsReturning ? [tile('New ads', String(newVsReturning.new)), tile('Returning ads', String(newVsReturning.returning))] : []),
+        tile('With salary', `${report.withSalary.percent}%`),
+        tile('With contact info', `${report.withContact.percent}%`),
+    ];
+    const searchCounts = report.searches
+        .flatMap(({ searchId, totalResults }) => (totalResults === undefined ? [] : [{ label: searchId, count: totalResults }]));
+    const sections: [string, Count[]][] = [
+        ['Top hiring companies', report.topCompanies],
+        ['Locations', report.byLocation],
+        ['Employment types', report.byEmploymentType],
+        ['Sections', report.bySection],
+        ['Application deadlines by week', report.byDeadlineWeek],
+        ['Results per search on Finn', searchCounts],
+    ];
+
+    return [
+        '<!DOCTYPE html>',
+        '<html lang="en"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">',
+        `<title>Finn.no job market report</title><style>${STYLE}</style></head><body>`,
+        '<h1>Finn.no job market report</h1>',
+        `<p class="generated">Generated ${escapeXml(report.generatedAt.slice(0, 16).replace('T', ' '))} UTC</p>`,
+        `<div class="tiles">${tiles.join('')}</div>`,
+        ...sections.map(([title, counts]) => `<h2>${escapeXml(title)}</h2>${barChart(counts)}`),
+        '</body></html>',
+        '',
+    ].join('\n');
+};
+
+// Write the report to the default KeyValueStore as REPORT.json and REPORT.html
+export const saveMarketReport = async (report: MarketReport): Promise<void> => {
+    await Actor.setValue(REPORT_JSON_KEY, report);
+    await Actor.setValue(REPORT_HTML_KEY, buildReportHtml(report), { contentType: 'text/html; charset=utf-8' });
+};
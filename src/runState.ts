@@ -0,0 +1,20 @@
+import { Actor } from 'apify';
+
+// Key under which the state of the run is stored in the default KeyValueStore
+const RUN_STATE_KEY = 'RUN_STATE';
+
+// Load the state an earlier start of this run saved before it migrated or restarted
+export const loadRunState = async <State>(): Promise<State | undefined> => {
+    return (await Actor.getValue<State>(RUN_STATE_KEY)) ?? undefined;
+};
+
+export const saveRunState = async <State>(state: State): Promise<void> => {
+    await Actor.setValue(RUN_STATE_KEY, state);
+};
+
+// Save the state whenever the platform asks the actor to persist it, and right before a migration
+export const persistRunStateOnEvents = <State>(getState: () => State): void => {
+    const save = async () => saveRunState(getState());
+    Actor.on('persistState', save);
+    Actor.on('migrating', save);
+};
@@ -0,0 +1,90 @@
+// Structured salary parsed from the ad's salary text
+export interface SalaryData {
+    raw: string;
+    min?: number;
+    max?: number;
+    currency?: string;
+    period?: 'year' | 'month' | 'hour';
+    negotiable: boolean;
+}
+
+// Phrases meaning the salary is agreed individually ("Etter avtale", "Konkurransedyktige betingelser")
+const NEGOTIABLE_PATTERN = /etter avtale|avtales|forhandl|konkurransedyktig|negotiable|competitive/;
+
+const CURRENCY_PATTERNS: [RegExp, string][] = [
+    [/€|\beur(o)?\b/, 'EUR'],
+    [/\$|\busd\b/, 'USD'],
+    [/\bsek\b/, 'SEK'],
+    [/\bdkk\b/, 'DKK'],
+    [/\bkr\b|\bnok\b|,-/, 'NOK'],
+];
+
+const PERIOD_PATTERNS: [RegExp, SalaryData['period']][] = [
+    [/(per|pr\.?|\/|i)\s*(år|året|year|annum)|årslønn|årlig|annual|yearly/, 'year'],
+    [/(per|pr\.?|\/|i)\s*(mnd|måned|måneden|month)|månedslønn|monthly/, 'month'],
+    [/(per|pr\.?|\/|i)\s*(time|timen|t|hour|hr)\b|timelønn|timesats|hourly/, 'hour'],
+];
+
+// Amounts with Norwegian or English thousand separators ("600 000", "600.000", "600,000"), decimals with comma
+// and shorthand suffixes ("600k", "1,2 mill"). A comma followed by three digits is read as a thousand separator.
+const AMOUNT_PATTERN = /(\d{1,3}(?:[ .,]\d{3})+|\d+)(?:,(\d+))?\s*(k\b|mill(?:ion(?:er)?)?\b|mnok\b)?/g;
+
+// Public sector pay grades ("Lønnstrinn 45-52", "ltr. 60") aren't amounts
+const PAY_GRADE_PATTERN = /lønnstrinn|\bltr\.?\s*\d/;
+
+// Words that turn a single amount into a lower or upper bound
+const FROM_PATTERN = /\b(fra|from|minimum|min\.?|over)\s*(kr\.?|nok)?\s*$/;
+const UP_TO_PATTERN = /\b(opptil|opp til|inntil|til|up to|maks(imum)?|max\.?)\s*(kr\.?|nok)?\s*$/;
+
+const parseAmount = (digits: string, decimals: string | undefined, suffix: string | undefined): number => {
+    let amount = Number(`${digits.replace(/[ .,]/g, '')}.${decimals ?? '0'}`);
+    if (suffix === 'k') amount *= 1000;
+    if (suffix?.startsWith('mill') || suffix === 'mnok') amount *= 1000000;
+    return Math.round(amount * 100) / 100;
+};
+
+// Without an explicit period, the size of the amount tells a yearly salary from a monthly or hourly rate
+const inferPeriod = (amount: number): SalaryData['period'] => {
+    if (amount >= 100000) return 'year';
+    if (amount >= 10000) return 'month';
+    return 'hour';
+};
+
+// Parse salary text such as "600 000 - 800 000 per år", "kr 350/time", "fra 550 000" or "Etter avtale"
+export const parseSalary = (raw: string): SalaryData => {
+    const text = raw.replace(/[\u00a0\u2009\u202f]/g, ' ').replace(/[–—]/g, '-').toLowerCase().trim();
+    const salary: SalaryData = { raw: raw.trim(), negotiable: NEGOTIABLE_PATTERN.test(text) };
+
+    const amounts: { value: number; prefix: string }[] = [];
+    const matches = PAY_GRADE_PATTERN.test(text) ? [] : text.matchAll(AMOUNT_PATTERN);
+    for (const match of matches) {
+        const value = parseAmount(match[1], match[2], match[3]);
+        // Ignore stray small numbers such as "100 %" or "1 stilling"; hourly rates are still well above this
+        if (value >= 50) {
+            amounts.push({ value, prefix: text.slice(0, match.index) });
+        }
+    }
+
+    if (amounts.length >= 2) {
+        salary.min = Math.min(amounts[0].value, amounts[1].value);
+        salary.max = Math.max(amounts[0].value, amounts[1].value);
+    } else if (amounts.length === 1) {
+        const [{ value, prefix }] = amounts;
+        if (FROM_PATTERN.test(prefix)) {
+            salary.min = value;
+        } else if (UP_TO_PATTERN.test(prefix)) {
+            salary.max = value;
+        } else {
+            salary.min = value;
+            salary.max = value;
+        }
+    }
+
+    const amount = salary.max ?? salary.min;
+    if (amount !== undefined) {
+        salary.currency = CURRENCY_PATTERNS.find(([pattern]) => pattern.test(text))?.[1] ?? 'NOK';
+        salary.period = PERIOD_PATTERNS.find(([pattern]) => pattern.test(text))?.[1] ?? inferPeriod(amount);
+    }
+
+    return salary;
+};
@@ -0,0 +1,98 @@
+import { JobSection } from './urls.js';
+
+// Structured search filters accepted through the actor input
+export interface SearchFilters {
+    sections?: JobSection[];
+    keywords?: string;
+    occupations?: string[];
+    locations?: string[];
+    industries?: string[];
+    publishedWithinDays?: number;
+    remoteOptions?: string[];
+}
+
+// A search results page to start crawling from. The id is what output records list under `searches`.
+export interface SearchSeed {
+    id: string;
+    url: string;
+}
+
+const searchBaseUrl = (section: JobSection): string => `https://www.finn.no/job/${section}/search.html`;
+
+// IT occupations, used when the input doesn't define any search at all
+export const DEFAULT_OCCUPATIONS = ['0.23', '0.22'];
+
+// Finn's query parameter for each multi-value filter
+const LIST_PARAMS: Record<'occupations' | 'locations' | 'industries' | 'remoteOptions', string> = {
+    occupations: 'occupation',
+    locations: 'location',
+    industries: 'industry',
+    remoteOptions: 'remote',
+};
+
+// Whether the filters describe a search of their own. publishedWithinDays only narrows the other searches.
+const hasFilters = (filters: SearchFilters): boolean => {
+    return Boolean(filters.keywords?.trim())
+        || Object.keys(LIST_PARAMS).some((key) => (filters[key as keyof typeof LIST_PARAMS]?.length ?? 0) > 0);
+};
+
+// Finn only offers a "published today" filter; longer windows are applied to the scraped ads instead
+const applyPublishedFilter = (url: string, publishedWithinDays: number | undefined): string => {
+    if (publishedWithinDays !== 1) return url;
+    try {
+        const searchUrl = new URL(url);
+        if (!searchUrl.searchParams.has('published')) searchUrl.searchParams.set('published', '1');
+        return searchUrl.toString();
+    } catch {
+        return url;
+    }
+};
+
+// Turn structured filters into a Finn search URL for one job section
+export const buildSearchUrl = (filters: SearchFilters, section: JobSection = 'fulltime'): string => {
+    const url = new URL(searchBaseUrl(section));
+
+    const keywords = filters.keywords?.trim();
+    if (keywords) {
+        url.searchParams.set('q', keywords);
+    }
+
+    for (const [key, param] of Object.entries(LIST_PARAMS)) {
+        for (const value of filters[key as keyof typeof LIST_PARAMS] ?? []) {
+            url.searchParams.append(param, value);
+        }
+    }
+
+    return applyPublishedFilter(url.toString(), filters.publishedWithinDays);
+};
+
+// Collect every search to run: explicit URLs first, then one per section built from the structured filters.
+// Falls back to the default IT occupation search when nothing was configured.
+export const buildSearchSeeds = (searchUrls: string[], filters: SearchFilters): SearchSeed[] => {
+    const urls = searchUrls
+        .map((url) => url.trim())
+        .filter(Boolean)
+        .map((url) => applyPublishedFilter(url, filters.publishedWithinDays));
+    const sections = filters.sections?.length ? filters.sections : ['fulltime' as const];
+
+    if (hasFilters(filters)) {
+        urls.push(...sections.map((section) => buildSearchUrl(filters, section)));
+    }
+
+    if (urls.length === 0) {
+        const defaultFilters = { occupations: DEFAULT_OCCUPATIONS, publishedWithinDays: filters.publishedWithinDays };
+        urls.push(...sections.map((section) => buildSearchUrl(defaultFilters, section)));
+    }
+
+    return [...new Set(urls)].map((url) => ({ id: url, url }));
+};
+
+// Whether a publication date lies within the last `days` days. Unparseable dates are kept.
+export const isPublishedWithin = (publicationDate: string | undefined, days: number | undefined, now = new Date()): boolean => {
+    if (!days || !publicationDate) return true;
+
+    const published = Date.parse(publicationDate);
+    if (Number.isNaN(published)) return true;
+
+    return now.getTime() - published <= days * 24 * 60 * 60 * 1000;
+};
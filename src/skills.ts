@@ -0,0 +1,101 @@
+import { loadBundledJson } from './data.js';
+import { DescriptionSection } from './description.js';
+
+// One entry of the skill taxonomy. Aliases are synonyms and spellings that count as the same skill.
+export interface SkillDefinition {
+    name: string;
+    category: string; // programming-language, framework, cloud, database, tool, skill, certification or spoken-language
+    aliases?: string[];
+    caseSensitive?: boolean; // For names that are also ordinary words or letters, such as "Go" and "C"
+    excludes?: string[]; // Longer terms that contain the name but aren't the skill, such as "C-sertifikat" for C
+    disabled?: boolean; // Set in an input override to drop a bundled entry
+}
+
+// Whether the ad asks for the skill as a requirement or mentions it as an advantage
+export type SkillRequirement = 'required' | 'nice-to-have';
+
+export interface SkillTag {
+    name: string;
+    category: string;
+    section: SkillRequirement;
+}
+
+export interface CompiledSkill {
+    definition: SkillDefinition;
+    pattern: RegExp;
+    excludePattern?: RegExp;
+}
+
+const BUNDLED_TAXONOMY = loadBundledJson<SkillDefinition[]>('skills.json');
+
+// Lines and headings asking for something as an advantage rather than a requirement
+const NICE_TO_HAVE_PATTERN = /ønskelig|ønskeleg|fordel|er et pluss|nice to have|is a plus|an advantage|preferably|gjerne|bonus/i;
+
+// Description sections whose content lists the requirements
+const REQUIREMENT_KINDS: DescriptionSection['kind'][] = ['qualifications', 'personal-qualities'];
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Terms such as "C#", ".NET" and "C++" contain symbols, so word boundaries are spelled out:
+// no letter or digit before the term, and nothing after it that would continue it ("Java" in "JavaScript", "C" in "C#")
+const termsPattern = (terms: string[], flags: string): RegExp => {
+    const alternatives = [...terms]
+        .sort((a, b) => b.length - a.length)
+        .map((term) => escapeRegExp(term).replace(/\s+/g, '[\\s-]+'));
+    return new RegExp(`(?<![\\p{L}\\p{N}_.#+])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}_#+&])`, flags);
+};
+
+const cleanTerms = (terms: string[]): string[] => terms.map((term) => term.trim()).filter(Boolean);
+
+const compileSkill = (definition: SkillDefinition): CompiledSkill => {
+    const flags = definition.caseSensitive ? 'u' : 'iu';
+    const excludes = cleanTerms(definition.excludes ?? []);
+    return {
+        definition,
+        pattern: termsPattern(cleanTerms([definition.name, ...(definition.aliases ?? [])]), flags),
+        // Excluded terms are blanked out of the text before the skill is looked for
+        excludePattern: excludes.length > 0 ? termsPattern(excludes, `g${flags}`) : undefined,
+    };
+};
+
+// Merge the input overrides into the bundled taxonomy. Entries are matched by name: an override replaces
+// the bundled entry with the same name, `disabled` drops it, and new names are added.
+export const buildTaxonomy = (overrides: SkillDefinition[] = [], replaceBundled = false): CompiledSkill[] => {
+    const byName = new Map<string, SkillDefinition>();
+    for (const definition of [...(replaceBundled ? [] : BUNDLED_TAXONOMY), ...overrides]) {
+        if (!definition?.name) continue;
+        byName.set(definition.name.toLowerCase(), definition);
+    }
+
+    return [...byName.values()]
+        .filter((definition) => !definition.disabled)
+        .map(compileSkill);
+};
+
+// Links in the Markdown would otherwise match on their URLs
+const stripMarkdown = (markdown: string): string => markdown.replace(/\]\([^)]*\)/g, ']').replace(/[*_]/g, '');
+
+// Tag the skills an ad mentions. Skills under the qualifications are required unless the line or heading
+// calls them an advantage; skills only mentioned elsewhere (the title, duties, the offer) are nice to have.
+export const tagSkills = (taxonomy: CompiledSkill[], title: string, sections: DescriptionSection[]): SkillTag[] => {
+    const passages: { text: string; requirement: SkillRequirement }[] = [{ text: title, requirement: 'nice-to-have' }];
+    for (const section of sections) {
+        const isRequirement = REQUIREMENT_KINDS.includes(section.kind) && !NICE_TO_HAVE_PATTERN.test(section.heading ?? '');
+        for (const line of stripMarkdown(section.content).split('\n')) {
+            passages.push({ text: line, requirement: isRequirement && !NICE_TO_HAVE_PATTERN.test(line) ? 'required' : 'nice-to-have' });
+        }
+    }
+
+    const tags: SkillTag[] = [];
+    for (const { definition, pattern, excludePattern } of taxonomy) {
+        const matches = passages.filter((passage) => pattern.test(excludePattern ? passage.text.replace(excludePattern, ' ') : passage.text));
+        if (matches.length === 0) continue;
+
+        tags.push({
+            name: definition.name,
+            category: definition.category,
+            section: matches.some((passage) => passage.requirement === 'required') ? 'required' : 'nice-to-have',
+        });
+    }
+    return tags;
+};
@@ -0,0 +1,203 @@
+import { CheerioRoot } from 'crawlee';
+
+// Where a field of the job record was extracted from
+export type FieldSource = 'json-ld' | 'page-state' | 'selector' | 'url' | 'derived';
+
+// The job fields we can read from structured data on the page
+export interface StructuredJobFields {
+    title?: string;
+    company?: string;
+    companyLogoUrl?: string;
+    location?: string;
+    publicationDate?: string;
+    expirationDate?: string;
+    employmentType?: string;
+    salary?: string;
+}
+
+export interface StructuredExtraction {
+    fields: StructuredJobFields;
+    sources: Partial<Record<keyof StructuredJobFields, FieldSource>>;
+}
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject => Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const asArray = (value: unknown): unknown[] => {
+    if (value === undefined || value === null) return [];
+    return Array.isArray(value) ? value : [value];
+};
+
+const asText = (value: unknown): string | undefined => {
+    if (typeof value === 'number') return String(value);
+    if (typeof value !== 'string') return undefined;
+    const text = value.trim();
+    return text || undefined;
+};
+
+// Parse the content of a script tag, ignoring malformed JSON
+const parseJson = (raw: string | null | undefined): unknown => {
+    if (!raw) return undefined;
+    try {
+        return JSON.parse(raw);
+    } catch {
+        return undefined;
+    }
+};
+
+const isJobPosting = (value: unknown): value is JsonObject => {
+    return isObject(value) && asArray(value['@type']).includes('JobPosting');
+};
+
+// Walk a parsed JSON tree and collect every object matching the predicate (JSON-LD may nest postings in @graph)
+const findObjects = (root: unknown, predicate: (value: JsonObject) => boolean, found: JsonObject[] = [], depth = 0): JsonObject[] => {
+    if (depth > 25) return found;
+
+    if (Array.isArray(root)) {
+        root.forEach((item) => findObjects(item, predicate, found, depth + 1));
+    } else if (isObject(root)) {
+        if (predicate(root)) {
+            found.push(root);
+        } else {
+            Object.values(root).forEach((item) => findObjects(item, predicate, found, depth + 1));
+        }
+    }
+
+    return found;
+};
+
+// Format a schema.org PostalAddress (or a plain string) as a single line
+const formatAddress = (address: unknown): string | undefined => {
+    if (!isObject(address)) return asText(address);
+
+    const postalLine = [asText(address.postalCode), asText(address.addressLocality)].filter(Boolean).join(' ');
+    const parts = [asText(address.streetAddress), postalLine, asText(address.addressRegion)].filter(Boolean);
+    return parts.length > 0 ? parts.join(', ') : undefined;
+};
+
+// Format schema.org MonetaryAmount into text such as "600000 - 800000 NOK per YEAR"
+const formatSalary = (baseSalary: unknown): string | undefined => {
+    if (!isObject(baseSalary)) return asText(baseSalary);
+
+    const currency = asText(baseSalary.currency);
+    const value = isObject(baseSalary.value) ? baseSalary.value : { value: baseSalary.value };
+    const min = asText(value.minValue);
+    const max = asText(value.maxValue);
+    const exact = asText(value.value);
+    const unit = asText(value.unitText);
+
+    let amount: string | undefined;
+    if (min && max) {
+        amount = `${min} - ${max}`;
+    } else {
+        amount = exact || min || max;
+    }
+
+    if (!amount) return undefined;
+    return [amount, currency, unit ? `per ${unit}` : undefined].filter(Boolean).join(' ');
+};
+
+// Map a schema.org JobPosting object to our job fields
+const mapJobPosting = (posting: JsonObject): StructuredJobFields => {
+    const organization = posting.hiringOrganization;
+    const locations = asArray(posting.jobLocation)
+        .map((place) => (isObject(place) ? formatAddress(place.address) ?? asText(place.name) : asText(place)))
+        .filter((place): place is string => Boolean(place));
+
+    return {
+        title: asText(posting.title),
+        company: isObject(organization) ? asText(organization.name) : asText(organization),
+        companyLogoUrl: isObject(organization) ? asText(organization.logo) : undefined,
+        location: locations.length > 0 ? locations.join('; ') : undefined,
+        publicationDate: asText(posting.datePosted),
+        expirationDate: asText(posting.validThrough),
+        employmentType: asArray(posting.employmentType).map(asText).filter(Boolean).join(', ') || undefined,
+        salary: formatSalary(posting.baseSalary),
+    };
+};
+
+// Finn's hydration state doesn't follow schema.org, so we look for an object that
+// has a title and an employer under one of the names used across page versions
+const looksLikeAdState = (value: JsonObject): boolean => {
+    return typeof value.title === 'string' && ['company_name', 'companyName', 'employer', 'company'].some((key) => key in value);
+};
+
+const mapAdState = (state: JsonObject): StructuredJobFields => {
+    const employer = state.company_name ?? state.companyName ?? state.employer ?? state.company;
+    const locations = asArray(state.locations ?? state.location).map(formatAddress).filter(Boolean);
+
+    return {
+        title: asText(state.title),
+        company: isObject(employer) ? asText(employer.name) : asText(employer),
+        location: locations.length > 0 ? locations.join('; ') : undefined,
+        publicationDate: asText(state.published ?? state.datePosted),
+        expirationDate: asText(state.deadline ?? state.application_deadline ?? state.validThrough),
+        employmentType: asArray(state.extent ?? state.employment_type ?? state.employmentType).map(asText).filter(Boolean).join(', ') || undefined,
+        salary: asText(state.salary),
+    };
+};
+
+// Fill the fields that are still missing, and remember where each value came from
+const mergeFields = (target: StructuredExtraction, fields: StructuredJobFields, source: FieldSource): void => {
+    for (const [key, value] of Object.entries(fields) as [keyof StructuredJobFields, string | undefined][]) {
+        if (value && !target.fields[key]) {
+            target.fields[key] = value;
+            target.sources[key] = source;
+        }
+    }
+};
+
+// Read schema.org JobPosting JSON-LD blocks and Finn's embedded hydration JSON.
+// JSON-LD takes precedence; the page state only fills the gaps.
+export const extractStructuredJobData = ($: CheerioRoot): StructuredExtraction => {
+    const result: StructuredExtraction = { fields: {}, sources: {} };
+
+    $('script[type="application/ld+json"]').each((_, element) => {
+        findObjects(parseJson($(element).html()), isJobPosting)
+            .forEach((posting) => mergeFields(result, mapJobPosting(posting), 'json-ld'));
+    });
+
+    $('script#__NEXT_DATA__, script[type="application/json"]').each((_, element) => {
+        const state = parseJson($(element).html());
+        // Some pages embed the JSON-LD object inside the hydration state as well
+        findObjects(state, isJobPosting).forEach((posting) => mergeFields(result, mapJobPosting(posting), 'page-state'));
+        findObjects(state, looksLikeAdState).forEach((adState) => mergeFields(result, mapAdState(adState), 'page-state'));
+    });
+
+    return result;
+};
+
+// Fields that are always derived from the request URL rather than the page content
+const URL_FIELDS = new Set(['url', 'finnkode']);
+
+// Fields the actor works out itself, from other fields, the search or the run, rather than reading them off the page
+const COMPUTED_FIELDS = new Set(['companyId', 'skills', 'language', 'section', 'searches', 'renderer']);
+
+// Fields parsed from another field share its source
+const DERIVED_FIELDS: Record<string, keyof StructuredJobFields> = {
+    locations: 'location',
+    deadlineType: 'expirationDate',
+    daysUntilDeadline: 'expirationDate',
+};
+
+// Record the source of every filled field of a job record; fields not found in structured data came from selectors
+export const resolveFieldSources = <T extends object>(record: T, structuredSources: StructuredExtraction['sources']): Partial<Record<keyof T, FieldSource>> => {
+    const sources: Partial<Record<keyof T, FieldSource>> = {};
+
+    for (const [key, value] of Object.entries(record)) {
+        if (value === undefined || value === '') continue;
+
+        if (URL_FIELDS.has(key)) {
+            sources[key as keyof T] = 'url';
+        } else if (COMPUTED_FIELDS.has(key)) {
+            sources[key as keyof T] = 'derived';
+        } else {
+            // Raw values (e.g. expirationDateRaw) share the source of the field they were parsed into
+            const field = DERIVED_FIELDS[key] ?? key.replace(/Raw$/, '') as keyof StructuredJobFields;
+            sources[key as keyof T] = structuredSources[field] ?? 'selector';
+        }
+    }
+
+    return sources;
+};
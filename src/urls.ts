@@ -0,0 +1,69 @@
+// The job sections Finn publishes ads under
+export type JobSection = 'fulltime' | 'parttime' | 'management';
+
+// What a Finn job URL points at, with its canonical form
+export interface ClassifiedUrl {
+    kind: 'search' | 'ad' | 'company';
+    url: string;
+    section?: JobSection;
+    finnkode?: string;
+    profileId?: string; // Only set for company profiles
+}
+
+const FINN_ORIGIN = 'https://www.finn.no';
+
+const SECTIONS: JobSection[] = ['fulltime', 'parttime', 'management'];
+
+// Search pages: /job/<section>/search.html and the section-less /job/search
+const SEARCH_PATH = /^\/job(?:\/(fulltime|parttime|management))?\/search(?:\.html)?\/?$/;
+
+// Ad pages: /job/<section>/ad.html?finnkode=<id>, /job/ad.html?finnkode=<id>, /job/ad/<id> and /job/<section>/ad/<id>.
+// Finn's short links (/<id>) are shared with every other marketplace, so they aren't treated as job ads.
+const AD_QUERY_PATH = /^\/job(?:\/(fulltime|parttime|management))?\/ad\.html$/;
+const AD_ID_PATH = /^\/job(?:\/(fulltime|parttime|management))?\/ad\/(\d+)\/?$/;
+
+// Employer profile pages: /job/company/<id> and /job/employer/company/<id>
+const COMPANY_PATH = /^\/job\/(?:employer\/)?company\/([\w-]+)\/?$/;
+
+const asSection = (value: string | undefined): JobSection | undefined => {
+    return SECTIONS.find((section) => section === value);
+};
+
+// Canonical URL of an ad - one form per finnkode, no matter which URL shape it was found under
+export const canonicalAdUrl = (finnkode: string): string => `${FINN_ORIGIN}/job/ad/${finnkode}`;
+
+// Recognise every Finn job URL shape - search, detail and employer profile - and normalise it.
+// Returns undefined for URLs that aren't Finn job pages.
+export const classifyFinnUrl = (rawUrl: string): ClassifiedUrl | undefined => {
+    let url: URL;
+    try {
+        url = new URL(rawUrl, FINN_ORIGIN);
+    } catch {
+        return undefined;
+    }
+
+    if (!/(^|\.)finn\.no$/.test(url.hostname)) return undefined;
+
+    const searchMatch = url.pathname.match(SEARCH_PATH);
+    if (searchMatch) {
+        return { kind: 'search', url: url.toString(), section: asSection(searchMatch[1]) };
+    }
+
+    const queryMatch = url.pathname.match(AD_QUERY_PATH);
+    const finnkodeParam = url.searchParams.get('finnkode');
+    if (queryMatch && finnkodeParam && /^\d+$/.test(finnkodeParam)) {
+        return { kind: 'ad', url: canonicalAdUrl(finnkodeParam), section: asSection(queryMatch[1]), finnkode: finnkodeParam };
+    }
+
+    const idMatch = url.pathname.match(AD_ID_PATH);
+    if (idMatch) {
+        return { kind: 'ad', url: canonicalAdUrl(idMatch[2]), section: asSection(idMatch[1]), finnkode: idMatch[2] };
+    }
+
+    const companyMatch = url.pathname.match(COMPANY_PATH);
+    if (companyMatch) {
+        return { kind: 'company', url: `${FINN_ORIGIN}${url.pathname.replace(/\/$/, '')}`, profileId: companyMatch[1] };
+    }
+
+    return undefined;
+};
@@ -0,0 +1,10 @@
+// Characters XML 1.0 doesn't allow at all: control characters other than tab and line breaks, lone surrogates, U+FFFE and U+FFFF
+const INVALID_XML_CHARACTERS = /[^\P{Cc}\t\n\r\u007f-\u009f]|[\p{Cs}\ufffe\uffff]/gu;
+
+// Escape text for XML and HTML content and attribute values, dropping the characters that would make the document invalid
+export const escapeXml = (value: string): string => value
+    .replace(INVALID_XML_CHARACTERS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
@@ -0,0 +1,36 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Company, rekeyCompany } from '../src/company.js';
+
+describe('rekeyCompany', () => {
+    it('moves a company to the key of the org number its profile showed', () => {
+        const company: Company = { companyId: 'finn-12345', name: 'Firma AS', orgNumber: '923609016', industry: 'IT' };
+        const companies = new Map([[company.companyId, company]]);
+
+        const rekeyed = rekeyCompany(companies, company);
+        assert.deepEqual(rekeyed, { companyId: '923609016', name: 'Firma AS', orgNumber: '923609016', industry: 'IT', previousIds: ['finn-12345'] });
+        assert.deepEqual([...companies.keys()], ['923609016']);
+    });
+
+    it('merges into a company already stored under the org number', () => {
+        const known: Company = { companyId: '923609016', name: 'Firma AS', orgNumber: '923609016' };
+        const company: Company = { companyId: 'name-firma-as', name: 'Firma', orgNumber: '923609016', website: 'https://firma.no' };
+        const companies = new Map([[known.companyId, known], [company.companyId, company]]);
+
+        rekeyCompany(companies, company);
+        assert.deepEqual([...companies.values()], [{
+            companyId: '923609016',
+            name: 'Firma AS',
+            orgNumber: '923609016',
+            website: 'https://firma.no',
+            previousIds: ['name-firma-as'],
+        }]);
+    });
+
+    it('leaves companies without a new org number alone', () => {
+        const company: Company = { companyId: 'finn-12345', name: 'Firma AS' };
+        const companies = new Map([[company.companyId, company]]);
+        assert.equal(rekeyCompany(companies, company), company);
+        assert.deepEqual([...companies.keys()], ['finn-12345']);
+    });
+});
@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AdIndex, ChangeType, classifyAd, hashJobData, recordAd } from '../src/delta.js';
+
+const URL = 'https://www.finn.no/job/ad/412345678';
+
+// What the detail handler does with an ad in incremental mode: classify it, store it, then record it
+const handleAd = async (index: AdIndex, job: object, push: () => Promise<void>): Promise<ChangeType | undefined> => {
+    const hash = hashJobData(job);
+    const changeType = classifyAd(index, '412345678', hash);
+    if (!changeType) {
+        recordAd(index, '412345678', URL, hash);
+        return undefined;
+    }
+    await push();
+    recordAd(index, '412345678', URL, hash);
+    return changeType;
+};
+
+describe('classifyAd and recordAd', () => {
+    it('tells new, updated and unchanged ads apart', () => {
+        const index: AdIndex = {};
+        assert.equal(classifyAd(index, '412345678', 'a'), 'new');
+        recordAd(index, '412345678', URL, 'a');
+        assert.equal(classifyAd(index, '412345678', 'a'), undefined);
+        assert.equal(classifyAd(index, '412345678', 'b'), 'updated');
+    });
+
+    it('keeps the first sighting when an ad is recorded again', () => {
+        const index: AdIndex = { 412345678: { url: URL, hash: 'a', firstSeen: '2026-01-01T00:00:00.000Z', lastSeen: '2026-01-01T00:00:00.000Z' } };
+        recordAd(index, '412345678', URL, 'b');
+        assert.equal(index[412345678].firstSeen, '2026-01-01T00:00:00.000Z');
+        assert.equal(index[412345678].hash, 'b');
+        assert.notEqual(index[412345678].lastSeen, '2026-01-01T00:00:00.000Z');
+    });
+
+    it('still stores an ad whose first push failed when the request is retried', async () => {
+        const index: AdIndex = {};
+        const job = { title: 'Utvikler', company: 'Firma AS' };
+        const stored: object[] = [];
+
+        await assert.rejects(handleAd(index, job, async () => { throw new Error('Dataset unavailable'); }));
+        assert.deepEqual(index, {});
+
+        assert.equal(await handleAd(index, job, async () => { stored.push(job); }), 'new');
+        assert.deepEqual(stored, [job]);
+        assert.equal(await handleAd(index, job, async () => { stored.push(job); }), undefined);
+    });
+});
@@ -0,0 +1,34 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { adSimilarity, minHashSignature } from '../src/duplicates.js';
+
+const DESCRIPTION = 'Vi søker en erfaren utvikler som vil bygge nye tjenester for kundene våre i Oslo. '
+    + 'Du jobber tett med designere og produkteiere, skriver TypeScript og React, og tar ansvar for kvaliteten i koden. '
+    + 'Vi tilbyr fleksibel arbeidstid, gode pensjonsordninger og et hyggelig fagmiljø med faglig utvikling.';
+
+const ad = (title: string, description: string) => ({ title, company: 'Firma AS', emails: [], signature: minHashSignature(description) });
+
+describe('minHashSignature', () => {
+    it('gives the same signature for the same text on every run', () => {
+        const signature = minHashSignature(DESCRIPTION);
+        assert.equal(signature.length, 64);
+        assert.deepEqual(minHashSignature(DESCRIPTION), signature);
+        assert.ok(signature.every((value) => Number.isInteger(value) && value >= 0 && value < 2147483647));
+    });
+
+    it('is empty for texts without words', () => {
+        assert.deepEqual(minHashSignature(' - '), []);
+    });
+});
+
+describe('adSimilarity', () => {
+    it('scores a repost with a slightly edited description as similar', () => {
+        const repost = DESCRIPTION.replace('i Oslo', 'i Bergen');
+        assert.ok(adSimilarity(ad('Utvikler', DESCRIPTION), ad('Utvikler', repost)) > 0.8);
+    });
+
+    it('scores ads with unrelated descriptions as different', () => {
+        const other = 'Barnehagen har ledig stilling som pedagogisk leder fra august. Vi ser etter en engasjert barnehagelærer.';
+        assert.ok(adSimilarity(ad('Utvikler', DESCRIPTION), ad('Pedagogisk leder', other)) < 0.3);
+    });
+});
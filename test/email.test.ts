@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeCloudflareEmail, findEmails, normalizeEmail } from '../src/email.js';
+import { parseJobAd } from '../src/parser.js';
+
+// kari.nordmann@firma.no, hidden with the XOR key 0x5a
+const CLOUDFLARE_ENCODED = '5a313b2833743435283e373b34341a3c3328373b743435';
+
+describe('normalizeEmail', () => {
+    it('lower-cases valid addresses and strips mailto links', () => {
+        assert.equal(normalizeEmail('Ola.Nordmann@Firma.NO'), 'ola.nordmann@firma.no');
+        assert.equal(normalizeEmail('mailto:jobb@firma.no?subject=Søknad'), 'jobb@firma.no');
+    });
+
+    it('rejects text that is not an address', () => {
+        assert.equal(normalizeEmail('ola.nordmann'), undefined);
+        assert.equal(normalizeEmail('@firma.no'), undefined);
+    });
+});
+
+describe('findEmails', () => {
+    it('cuts off text glued onto the top-level domain', () => {
+        assert.deepEqual(findEmails('E-post: kari@firma.noTelefon: 912 34 567'), ['kari@firma.no']);
+        assert.deepEqual(findEmails('Kontakt post@firma.no.Kontaktperson Ola'), ['post@firma.no']);
+        assert.deepEqual(findEmails('ola@firma.comtlf 22334455'), ['ola@firma.com']);
+    });
+
+    it('reads obfuscated addresses', () => {
+        assert.deepEqual(findEmails('ola [at] firma [dot] no'), ['ola@firma.no']);
+        assert.deepEqual(findEmails('ola(at)firma(punktum)no'), ['ola@firma.no']);
+        assert.deepEqual(findEmails('kari {krøllalfa} firma.no'), ['kari@firma.no']);
+    });
+
+    it('lists each address once', () => {
+        assert.deepEqual(findEmails('jobb@firma.no, JOBB@firma.no'), ['jobb@firma.no']);
+    });
+});
+
+describe('Cloudflare-protected addresses', () => {
+    it('decodes the hex with its XOR key', () => {
+        assert.equal(decodeCloudflareEmail(CLOUDFLARE_ENCODED), 'kari.nordmann@firma.no');
+        assert.equal(decodeCloudflareEmail('not hex'), undefined);
+    });
+
+    it('finds them on the ad page in data-cfemail attributes and protection links', () => {
+        const html = '<html><body><h1>Utvikler</h1>'
+            + `<p><span class="__cf_email__" data-cfemail="${CLOUDFLARE_ENCODED}">[email&#160;protected]</span></p>`
+            + `<a href="/cdn-cgi/l/email-protection#${CLOUDFLARE_ENCODED}">E-post</a>`
+            + '<a href="mailto:jobb@firma.no">Søk her</a></body></html>';
+        const { emails } = parseJobAd(html, 'https://www.finn.no/job/ad/412345678');
+        assert.deepEqual(emails?.map((email) => email.address).sort(), ['jobb@firma.no', 'kari.nordmann@firma.no']);
+    });
+});
@@ -0,0 +1,18 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildCsv } from '../src/exports.js';
+
+describe('buildCsv', () => {
+    it('quotes fields with separators and line breaks', () => {
+        assert.equal(buildCsv(['title', 'salary'], [['Utvikler, "senior"', 650000]]), '\ufefftitle,salary\r\n"Utvikler, ""senior""",650000\r\n');
+    });
+
+    it('keeps spreadsheets from running text as a formula', () => {
+        const csv = buildCsv(['title'], [['=HYPERLINK("https://example.com")'], ['+47 22 00 00 00'], ['-1'], ['@SUM(A1)'], ['\tOslo']]);
+        assert.deepEqual(csv.slice(1).split('\r\n').slice(1, -1), ['"\'=HYPERLINK(""https://example.com"")"', '\'+47 22 00 00 00', '\'-1', '\'@SUM(A1)', '\'\tOslo']);
+    });
+
+    it('leaves negative numbers alone', () => {
+        assert.equal(buildCsv(['change'], [[-5]]), '\ufeffchange\r\n-5\r\n');
+    });
+});
@@ -0,0 +1,44 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseLocations } from '../src/location.js';
+
+describe('parseLocations', () => {
+    it('resolves postal codes to the current municipality and county', () => {
+        assert.deepEqual(parseLocations('Storgata 1, 2000 Lillestrøm'), [{
+            raw: 'Storgata 1, 2000 Lillestrøm',
+            streetAddress: 'Storgata 1',
+            postalCode: '2000',
+            city: 'Lillestrøm',
+            municipality: 'Lillestrøm',
+            county: 'Akershus',
+            country: 'NO',
+        }]);
+        assert.equal(parseLocations('1400 Ski')[0].municipality, 'Nordre Follo');
+        assert.equal(parseLocations('3080 Holmestrand')[0].county, 'Vestfold');
+        assert.equal(parseLocations('9008 Tromsø')[0].county, 'Troms');
+    });
+
+    it('resolves place names given without a postal code', () => {
+        assert.deepEqual(parseLocations('Nordre Follo'), [{ raw: 'Nordre Follo', city: 'Nordre Follo', municipality: 'Nordre Follo', county: 'Akershus', country: 'NO' }]);
+    });
+
+    it('splits lists of places', () => {
+        assert.deepEqual(parseLocations('Oslo, Bergen og Trondheim').map((location) => location.city), ['Oslo', 'Bergen', 'Trondheim']);
+    });
+
+    it('keeps county and municipality names that contain a separator whole', () => {
+        assert.deepEqual(parseLocations('Møre og Romsdal'), [{ raw: 'Møre og Romsdal', county: 'Møre og Romsdal', country: 'NO' }]);
+        assert.deepEqual(parseLocations('Bergen og Sogn og Fjordane').map((location) => location.county), ['Vestland', 'Vestland']);
+        assert.deepEqual(parseLocations('Rollag og Nore og Uvdal').map((location) => location.municipality), ['Rollag', 'Nore og Uvdal']);
+    });
+
+    it('reads Norway as the country rather than a place', () => {
+        assert.deepEqual(parseLocations('Oslo, Norway'), [{ raw: 'Oslo', city: 'Oslo', municipality: 'Oslo', county: 'Oslo', country: 'NO' }]);
+        assert.deepEqual(parseLocations('Fjernarbeid, Noreg'), [{ raw: 'Fjernarbeid', city: 'Fjernarbeid', country: 'NO' }]);
+        assert.deepEqual(parseLocations('Norge'), [{ raw: 'Norge', country: 'NO' }]);
+    });
+
+    it('recognises foreign countries', () => {
+        assert.deepEqual(parseLocations('Stockholm, Sverige'), [{ raw: 'Stockholm, Sverige', country: 'SE', city: 'Stockholm' }]);
+    });
+});
@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { NotifiableAd, NotificationTarget, buildPayloads, validateTargets } from '../src/notifications.js';
+
+const ad: NotifiableAd = { url: 'https://www.finn.no/job/ad/412345678', title: 'Utvikler <backend> & drift', company: 'Firma <AS>' };
+
+describe('buildPayloads', () => {
+    it('escapes ad text for Slack', () => {
+        const [{ payload }] = buildPayloads({ type: 'slack', url: 'https://hooks.slack.com/services/T/B/x' }, [{ ...ad, changeType: 'new' }]);
+        assert.deepEqual(payload, {
+            text: '1 new job ad on Finn.no\n\n*<https://www.finn.no/job/ad/412345678|Utvikler &lt;backend&gt; &amp; drift>* - Firma &lt;AS&gt;',
+        });
+    });
+
+    it('says whether the ads are new or updated', () => {
+        const target: NotificationTarget = { type: 'teams', url: 'https://example.webhook.office.com/x' };
+        const title = (ads: NotifiableAd[]) => (buildPayloads(target, ads)[0].payload as { title: string }).title;
+        assert.equal(title([{ ...ad, changeType: 'updated' }]), '1 updated job ad on Finn.no');
+        assert.equal(title([{ ...ad, changeType: 'new' }, { ...ad, changeType: 'updated' }]), '2 job ads on Finn.no (1 new, 1 updated)');
+        assert.equal(title([ad, ad]), '2 job ads on Finn.no');
+    });
+});
+
+describe('validateTargets', () => {
+    it('reports unknown types, missing or invalid URLs and invalid templates', () => {
+        const targets = [
+            { type: 'email', url: 'https://example.com' },
+            { type: 'webhook' },
+            { type: 'slack', url: 'hooks.slack.com/services/x' },
+            { type: 'webhook', url: 'https://example.com', payloadTemplate: '{' },
+            { type: 'webhook', url: 'https://example.com' },
+        ] as NotificationTarget[];
+        const errors = validateTargets(targets);
+        assert.equal(errors.length, 4);
+        assert.match(errors[0], /^notifications\[0\]\.type/);
+        assert.match(errors[1], /^notifications\[1\]\.url/);
+        assert.match(errors[2], /^notifications\[2\]\.url/);
+        assert.match(errors[3], /^notifications\[3\]\.payloadTemplate/);
+    });
+});
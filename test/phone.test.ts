@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import { findPhoneNumbers, parsePhoneNumber } from '../src/phone.js';
+import { parseJobAd } from '../src/parser.js';
+
+const readFixture = async (name: string): Promise<string> => readFile(new URL(`fixtures/contacts/${name}.html`, import.meta.url), 'utf8');
+
+describe('parsePhoneNumber', () => {
+    it('normalises Norwegian numbers to E.164', () => {
+        assert.equal(parsePhoneNumber('+47 912 34 567')?.e164, '+4791234567');
+        assert.equal(parsePhoneNumber('0047 22 33 44 55')?.e164, '+4722334455');
+        assert.equal(parsePhoneNumber('912 34 567')?.e164, '+4791234567');
+        assert.equal(parsePhoneNumber('91-23-45-67')?.e164, '+4791234567');
+        assert.equal(parsePhoneNumber('47 91 23 45 67'), undefined);
+    });
+
+    it('tells mobile, landline and service numbers apart by range', () => {
+        assert.equal(parsePhoneNumber('41234567')?.type, 'mobile');
+        assert.equal(parsePhoneNumber('91234567')?.type, 'mobile');
+        assert.equal(parsePhoneNumber('22334455')?.type, 'landline');
+        assert.equal(parsePhoneNumber('55123456')?.type, 'landline');
+        assert.equal(parsePhoneNumber('73123456')?.type, 'landline');
+        assert.equal(parsePhoneNumber('80012345')?.type, 'service');
+    });
+
+    it('rejects foreign and malformed numbers', () => {
+        assert.equal(parsePhoneNumber('+46 70 123 45 67'), undefined);
+        assert.equal(parsePhoneNumber('1234567'), undefined);
+        assert.equal(parsePhoneNumber('01234567'), undefined);
+    });
+});
+
+describe('findPhoneNumbers', () => {
+    it('skips finnkodes, org numbers, dates and amounts', () => {
+        const text = 'FINN-kode 412345678. Org.nr. 923 609 016. Frist 15.11.2026, ref 20261115. Lønn kr 45 000 000. Ring 22 33 44 55.';
+        assert.deepEqual(findPhoneNumbers(text).map((phone) => phone.e164), ['+4722334455']);
+    });
+
+    it('reads numbers glued to a phone label, but not to other words', () => {
+        assert.deepEqual(findPhoneNumbers('Telefon22 33 44 55').map((phone) => phone.e164), ['+4722334455']);
+        assert.deepEqual(findPhoneNumbers('Stillingsnummer91234567'), []);
+    });
+
+    it('lists each number once', () => {
+        assert.equal(findPhoneNumbers('Mob: 912 34 567 / +47 91234567').length, 1);
+    });
+});
+
+describe('contact phone numbers', () => {
+    const url = 'https://www.finn.no/job/ad/412345678';
+
+    it('takes each number from its own contact in the contact list', async () => {
+        const { contactPersons } = parseJobAd(await readFixture('contact-list'), url);
+        assert.deepEqual(contactPersons, [
+            { name: 'Kari Nordmann', role: 'Teknologidirektør', phoneNumber: '+4791234567', phoneType: 'mobile', email: undefined },
+            { name: 'Ola Hansen', role: undefined, phoneNumber: '+4722334455', phoneType: 'landline', email: undefined },
+        ]);
+    });
+
+    it('reads a number listed after a contact list item, ignoring the org number', async () => {
+        const { contactPersons } = parseJobAd(await readFixture('list-item'), url);
+        assert.deepEqual(contactPersons, [{ name: 'Per Olsen', phoneNumber: '+4798765432', phoneType: 'mobile', email: undefined }]);
+    });
+
+    it('reads the number of a recruiting manager', async () => {
+        const { contactPersons } = parseJobAd(await readFixture('recruiting-manager'), url);
+        assert.deepEqual(contactPersons, [{ name: 'Lise Berg', phoneNumber: '+4755123456', phoneType: 'landline', email: undefined }]);
+    });
+});
@@ -0,0 +1,27 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createQuota, isSlotDone, isWaiting, releaseSlot, reserveSlot, skipSlot, usedSlots } from '../src/quota.js';
+
+describe('quota slots', () => {
+    it('gives the slot of a skipped ad to a waiting one', () => {
+        const quota = createQuota(2);
+        assert.ok(reserveSlot(quota, '1'));
+        assert.ok(reserveSlot(quota, '2'));
+        assert.equal(reserveSlot(quota, '3'), false);
+
+        skipSlot(quota, '1');
+        assert.equal(usedSlots(quota), 1);
+        assert.ok(isSlotDone(quota, '1'));
+        assert.equal(isWaiting(quota, '1'), false);
+        assert.equal(reserveSlot(quota, '1'), false);
+        assert.ok(reserveSlot(quota, '3'));
+    });
+
+    it('gives the slot of a failed ad to a waiting one', () => {
+        const quota = createQuota(1);
+        assert.ok(reserveSlot(quota, '1'));
+        releaseSlot(quota, '1');
+        assert.equal(usedSlots(quota), 0);
+        assert.ok(reserveSlot(quota, '2'));
+    });
+});
@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SalaryData, parseSalary } from '../src/salary.js';
+
+// Salary texts as they appear on Finn ads, with what they should parse into (raw and negotiable left out)
+const CASES: [string, Omit<SalaryData, 'raw' | 'negotiable'>][] = [
+    ['600 000 - 800 000 per år', { min: 600000, max: 800000, currency: 'NOK', period: 'year' }],
+    ['Kr 650 000 - 750 000,-', { min: 650000, max: 750000, currency: 'NOK', period: 'year' }],
+    ['kr 600.000 – 700.000', { min: 600000, max: 700000, currency: 'NOK', period: 'year' }],
+    ['Fra 550 000', { min: 550000, currency: 'NOK', period: 'year' }],
+    ['Opptil 900 000 kr', { max: 900000, currency: 'NOK', period: 'year' }],
+    ['700k - 850k', { min: 700000, max: 850000, currency: 'NOK', period: 'year' }],
+    ['1,2 mill', { min: 1200000, max: 1200000, currency: 'NOK', period: 'year' }],
+    ['45 000 kr per måned', { min: 45000, max: 45000, currency: 'NOK', period: 'month' }],
+    ['kr 350/time', { min: 350, max: 350, currency: 'NOK', period: 'hour' }],
+    ['Timelønn kr 245,50', { min: 245.5, max: 245.5, currency: 'NOK', period: 'hour' }],
+    ['200 kr per time + tillegg', { min: 200, max: 200, currency: 'NOK', period: 'hour' }],
+    ['NOK 700,000 - 900,000 per year', { min: 700000, max: 900000, currency: 'NOK', period: 'year' }],
+    ['EUR 60,000 annually', { min: 60000, max: 60000, currency: 'EUR', period: 'year' }],
+    ['Up to NOK 1,100,000', { max: 1100000, currency: 'NOK', period: 'year' }],
+];
+
+describe('parseSalary', () => {
+    for (const [raw, expected] of CASES) {
+        it(`parses "${raw}"`, () => {
+            const { raw: _raw, negotiable: _negotiable, ...salary } = parseSalary(raw);
+            assert.deepEqual(salary, expected);
+        });
+    }
+
+    it('marks agreed salaries as negotiable without amounts', () => {
+        assert.deepEqual(parseSalary('Etter avtale'), { raw: 'Etter avtale', negotiable: true });
+        assert.deepEqual(parseSalary('Konkurransedyktige betingelser'), { raw: 'Konkurransedyktige betingelser', negotiable: true });
+        assert.deepEqual(parseSalary('Competitive salary'), { raw: 'Competitive salary', negotiable: true });
+    });
+
+    it('keeps amounts next to a negotiable phrase', () => {
+        assert.deepEqual(parseSalary('Fra 600 000, etter avtale'), {
+            raw: 'Fra 600 000, etter avtale',
+            negotiable: true,
+            min: 600000,
+            currency: 'NOK',
+            period: 'year',
+        });
+    });
+
+    it('ignores public sector pay grades', () => {
+        assert.deepEqual(parseSalary('Lønnstrinn 45-52'), { raw: 'Lønnstrinn 45-52', negotiable: false });
+        assert.deepEqual(parseSalary('Stillingskode 1408, ltr. 60'), { raw: 'Stillingskode 1408, ltr. 60', negotiable: false });
+    });
+});
@@ -0,0 +1,27 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildTaxonomy, tagSkills } from '../src/skills.js';
+
+const taxonomy = buildTaxonomy();
+
+const skillNames = (text: string): string[] => tagSkills(taxonomy, '', [{ kind: 'qualifications', content: text }]).map((skill) => skill.name);
+
+describe('tagSkills', () => {
+    it('tags C, but not in a driving licence class', () => {
+        assert.ok(skillNames('Erfaring med C og C++').includes('C'));
+        assert.ok(!skillNames('Du må ha C-sertifikat').includes('C'));
+        assert.ok(!skillNames('Førerkort klasse C er et krav').includes('C'));
+    });
+
+    it('tags React Native without React', () => {
+        assert.deepEqual(skillNames('Du kan React Native'), ['React Native']);
+        assert.deepEqual(skillNames('Du kan React og React Native').sort(), ['React', 'React Native']);
+    });
+
+    it('takes excluded terms from the input overrides', () => {
+        const custom = buildTaxonomy([{ name: 'Go', category: 'programming-language', caseSensitive: true, excludes: ['Go-kart'] }], true);
+        const names = (text: string) => tagSkills(custom, text, []).map((skill) => skill.name);
+        assert.deepEqual(names('Go-utvikler'), ['Go']);
+        assert.deepEqual(names('Sommerfest med Go-kart'), []);
+    });
+});
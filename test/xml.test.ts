@@ -0,0 +1,38 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { strFromU8, unzipSync } from 'fflate';
+import { escapeXml } from '../src/xml.js';
+import { buildXlsx } from '../src/xlsx.js';
+
+describe('escapeXml', () => {
+    it('escapes markup characters', () => {
+        assert.equal(escapeXml('<b>"Lønn" & bonus</b>'), '&lt;b&gt;&quot;Lønn&quot; &amp; bonus&lt;/b&gt;');
+    });
+
+    it('drops characters XML 1.0 does not allow, but keeps tabs and line breaks', () => {
+        assert.equal(escapeXml('Utvikler\u0000\u0008\u000b\u001f\tOslo\r\n'), 'Utvikler\tOslo\r\n');
+        assert.equal(escapeXml('a\ud800b\uffffc 🚀'), 'abc 🚀');
+    });
+});
+
+describe('buildXlsx', () => {
+    it('writes a ZIP archive with the escaped cells in the sheet', () => {
+        const files = unzipSync(buildXlsx('Ads', ['title', 'salary'], [['Utvikler <Oslo>\u0001', 650000]]));
+        assert.deepEqual(Object.keys(files).sort(), [
+            '[Content_Types].xml',
+            '_rels/.rels',
+            'xl/_rels/workbook.xml.rels',
+            'xl/workbook.xml',
+            'xl/worksheets/sheet1.xml',
+        ]);
+        const sheet = strFromU8(files['xl/worksheets/sheet1.xml']);
+        assert.match(sheet, /<t xml:space="preserve">Utvikler &lt;Oslo&gt;<\/t>/);
+        assert.match(sheet, /<c r="B2"><v>650000<\/v><\/c>/);
+    });
+
+    it('writes text that looks like a formula as a text cell', () => {
+        const sheet = strFromU8(unzipSync(buildXlsx('Ads', ['title'], [['=HYPERLINK("https://example.com")']]))['xl/worksheets/sheet1.xml']);
+        assert.match(sheet, /<c r="A2" t="inlineStr"><is><t xml:space="preserve">=HYPERLINK\(&quot;https:\/\/example.com&quot;\)<\/t><\/is><\/c>/);
+        assert.doesNotMatch(sheet, /<f>/);
+    });
+});